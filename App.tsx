@@ -1,24 +1,42 @@
 
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
 import Header from './components/Header';
 import Sidebar from './components/Sidebar';
 import MapDisplay from './components/MapDisplay';
 import ActionPanel from './components/ActionPanel';
-import { ScanSettings, ScanResult, Business, Insight, InsightType, RankingPoint, ScanHistoryItem, PlaceAutocompleteResult } from './types';
+import { ScanSettings, ScanResult, Business, Insight, InsightType, RankingPoint, ScanHistoryItem, PlaceAutocompleteResult, MonitoredJob, MonitorCadence, Workspace, SavedBusiness, ScanDraft, ChatMessage } from './types';
+import { runKeywordScans, KeywordScanProgress } from './services/scanRunner.ts';
+import { createScanControl, ScanControl } from './services/scanControl.ts';
+import { getHistoryResults, getHistoryResultForKeyword, getSavedInsights, withSavedInsight, getSavedChat, withSavedChat } from './services/scanUtils.ts';
+import { DEFAULT_GRID_SPEC, buildGrid, GridPoint } from './services/gridGeometry.ts';
+import { diffScans } from './services/gridDiff.ts';
+import { loadWorkspace, saveWorkspace, createProject, deleteProject, getActiveProject, saveBusinessToProject, removeBusinessFromProject, setProjectDefaults, getSavedBusinessSettings, filterHistoryByProject } from './services/workspaceService.ts';
+import { loadCompetitorSets, saveCompetitorSets, getCompetitorSet, updateCompetitorSet, pinCompetitor, unpinCompetitor, excludeCompetitor, includeCompetitor, setDiscoverCount, clearDiscovered, CompetitorSets } from './services/competitorSetService.ts';
+import { loadScanHistory, saveScanHistoryItem, deleteScanHistoryItem, loadScanDraft, saveScanDraft, deleteScanDraft, getStorageUsage, StorageUsage } from './services/storageService.ts';
+import { addMonitoredJob, getDueJobs, recordJobRun, setJobPaused, loadMonitoredJobs, saveMonitoredJobs } from './services/monitoringService.ts';
 // FIX: Added .ts extension to imports.
-import { generateScanResults } from './services/mockDataService.ts';
-// FIX: Added .ts extension to imports.
-import { getRankingInsights, getCompetitorGapAnalysis, getReviewVolumeAnalysis, getCompetitorList } from './services/geminiService.ts';
+import { getRankingInsights, getCompetitorGapAnalysis, getReviewVolumeAnalysis, getLandscapeCompetitors, askAboutScan } from './services/geminiService.ts';
+import { resolveBusinessProfiles } from './services/businessProfileService.ts';
+import TrendsView from './components/TrendsView';
+import ReportBuilder from './components/ReportBuilder';
 import ErrorBoundary from './components/ErrorBoundary';
 
+// How often the monitoring scheduler checks for due jobs.
+const SCHEDULER_INTERVAL_MS = 60 * 1000;
+
 const App: React.FC = () => {
   const [scanSettings, setScanSettings] = useState<ScanSettings>({
     location: null,
     searchQuery: 'barber',
-    gridSize: '15 x 11 (4 km)',
+    gridSize: DEFAULT_GRID_SPEC,
+    provider: 'mock',
+    serpEndpoint: localStorage.getItem('serpEndpoint') ?? '',
   });
   const [scanResult, setScanResult] = useState<ScanResult | null>(null);
+  // Every keyword's result for the scan on screen; scanResult is the one currently being viewed.
+  const [keywordResults, setKeywordResults] = useState<ScanResult[]>([]);
   const [isScanning, setIsScanning] = useState(false);
+  const [scanError, setScanError] = useState<string | null>(null);
   const [scanCompleted, setScanCompleted] = useState(false);
   const [businesses, setBusinesses] = useState<PlaceAutocompleteResult[]>([]);
   const [isSearching, setIsSearching] = useState(false);
@@ -27,8 +45,27 @@ const App: React.FC = () => {
   const [selectedPoint, setSelectedPoint] = useState<RankingPoint | null>(null);
   const [hoveredCompetitorId, setHoveredCompetitorId] = useState<string | null>(null);
   const [scanHistory, setScanHistory] = useState<ScanHistoryItem[]>([]);
-  const [scanProgress, setScanProgress] = useState<{ current: number, total: number} | null>(null);
+  // The latest history for requests that finish after a render, so their saves build on each other's.
+  const scanHistoryRef = useRef(scanHistory);
+  scanHistoryRef.current = scanHistory;
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [scanProgress, setScanProgress] = useState<KeywordScanProgress | null>(null);
+  const [isScanPaused, setIsScanPaused] = useState(false);
+  // Points of the keyword being scanned, drawn on the map as they arrive over the grid's placeholders.
+  const [liveScan, setLiveScan] = useState<{ grid: GridPoint[], keywordIndex: number, rankings: RankingPoint[] } | null>(null);
+  const [scanDraft, setScanDraft] = useState<ScanDraft | null>(null);
+  const scanControlRef = useRef<ScanControl | null>(null);
+  // The running scan's latest checkpoint; saved as the draft if the scan stops before finishing.
+  const scanCheckpointRef = useRef<ScanDraft | null>(null);
   const [showHeatmap, setShowHeatmap] = useState(false);
+  const [compareBaseId, setCompareBaseId] = useState<string | null>(null);
+  const [trendsView, setTrendsView] = useState<{ groupKey: string | null } | null>(null);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+  const [workspace, setWorkspace] = useState<Workspace>(() => loadWorkspace());
+  const [competitorSets, setCompetitorSets] = useState<CompetitorSets>(() => loadCompetitorSets());
+  const [monitoredJobs, setMonitoredJobs] = useState<MonitoredJob[]>(() => loadMonitoredJobs());
+  const [mapInstance, setMapInstance] = useState<google.maps.Map | null>(null);
 
   const searchCache = useRef(new Map<string, PlaceAutocompleteResult[]>());
   const placesServiceRef = useRef<google.maps.places.PlacesService | null>(null);
@@ -59,21 +96,29 @@ const App: React.FC = () => {
   }, []);
 
 
+  const refreshStorageUsage = useCallback(() => {
+    getStorageUsage().then(setStorageUsage);
+  }, []);
+
+  const handleStorageError = useCallback((error: unknown) => {
+    console.error("Scan history storage error:", error);
+    setStorageError(error instanceof Error ? error.message : 'An unknown storage error occurred.');
+  }, []);
+
   useEffect(() => {
-    try {
-      const savedHistory = localStorage.getItem('gmbScanHistory');
-      if (savedHistory) {
-        setScanHistory(JSON.parse(savedHistory));
-      }
-    } catch (error) {
-      console.error("Failed to load scan history:", error);
-      setScanHistory([]);
-    }
+    loadScanHistory()
+      .then(setScanHistory)
+      .catch(handleStorageError)
+      .finally(refreshStorageUsage);
+    // A scan that runs before the draft has loaded replaces it, so keep whatever it set.
+    loadScanDraft()
+      .then(draft => setScanDraft(prev => prev ?? draft))
+      .catch(handleStorageError);
     
     getLocation().catch(() => {
       console.log("User location not available on initial load.");
     });
-  }, [getLocation]);
+  }, [getLocation, handleStorageError, refreshStorageUsage]);
 
   const [insights, setInsights] = useState<Record<InsightType, Insight>>({
     ranking: { status: 'idle', content: null, sources: [] },
@@ -81,6 +126,26 @@ const App: React.FC = () => {
     review: { status: 'idle', content: null, sources: [] },
   });
 
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [isChatLoading, setIsChatLoading] = useState(false);
+  const [chatError, setChatError] = useState<{ message: string; question: string } | null>(null);
+
+  // In-flight insight and chat requests, aborted once the scan they were asked for is no longer on screen.
+  const insightControllersRef = useRef(new Map<InsightType, AbortController>());
+  const chatControllerRef = useRef<AbortController | null>(null);
+  const abortInsightRequests = useCallback(() => {
+    insightControllersRef.current.forEach(controller => controller.abort());
+    insightControllersRef.current.clear();
+    chatControllerRef.current?.abort();
+    chatControllerRef.current = null;
+  }, []);
+
+  const showChat = useCallback((messages: ChatMessage[]) => {
+    setChatMessages(messages);
+    setIsChatLoading(false);
+    setChatError(null);
+  }, []);
+
   const handlePlaceSearch = useCallback(async (query: string, map: google.maps.Map | null) => {
       if (query.length < 3) {
           setBusinesses([]);
@@ -134,142 +199,537 @@ const App: React.FC = () => {
       });
   }, [userLocation, getLocation]);
 
-  const handlePlaceSelect = useCallback((place: PlaceAutocompleteResult, map: google.maps.Map | null) => {
-    if (!map) return;
+  const fetchPlaceDetails = useCallback((place: PlaceAutocompleteResult, map: google.maps.Map): Promise<Business | null> => {
     if (!placesServiceRef.current) {
         placesServiceRef.current = new window.google.maps.places.PlacesService(map);
     }
-    
-    setIsSearching(true);
-    placesServiceRef.current.getDetails({ placeId: place.id, fields: ['name', 'formatted_address', 'geometry', 'place_id'] }, (result, status) => {
-        if (status === window.google.maps.places.PlacesServiceStatus.OK && result?.geometry?.location) {
-            const business: Business = {
-                id: result.place_id!,
-                name: result.name!,
-                address: result.formatted_address!,
-                latitude: result.geometry.location.lat(),
-                longitude: result.geometry.location.lng(),
-            };
-            setScanSettings(prev => ({ ...prev, location: business }));
-            setBusinesses([]);
-        } else {
-            console.error('Failed to get place details:', status);
-        }
-        setIsSearching(false);
+    return new Promise(resolve => {
+      placesServiceRef.current!.getDetails({ placeId: place.id, fields: ['name', 'formatted_address', 'geometry', 'place_id'] }, (result, status) => {
+          if (status === window.google.maps.places.PlacesServiceStatus.OK && result?.geometry?.location) {
+              resolve({
+                  id: result.place_id!,
+                  name: result.name!,
+                  address: result.formatted_address!,
+                  latitude: result.geometry.location.lat(),
+                  longitude: result.geometry.location.lng(),
+              });
+          } else {
+              console.error('Failed to get place details:', status);
+              resolve(null);
+          }
+      });
     });
   }, []);
 
+  const handlePlaceSelect = useCallback(async (place: PlaceAutocompleteResult, map: google.maps.Map | null) => {
+    if (!map) return;
+    setIsSearching(true);
+    const business = await fetchPlaceDetails(place, map);
+    if (business) {
+        setScanSettings(prev => ({ ...prev, location: business }));
+        setBusinesses([]);
+    }
+    setIsSearching(false);
+  }, [fetchPlaceDetails]);
+
   const handleSelectBusiness = useCallback((business: Business) => {
     setScanSettings(prev => ({ ...prev, location: business }));
     setBusinesses([]);
   }, []);
   
-  const handleScan = useCallback(async () => {
-    if (!scanSettings.location) return;
+  const updateWorkspace = useCallback((update: (workspace: Workspace) => Workspace) => {
+    setWorkspace(prev => {
+        const newWorkspace = update(prev);
+        saveWorkspace(newWorkspace);
+        return newWorkspace;
+    });
+  }, []);
+
+  const updateCompetitorSets = useCallback((update: (sets: CompetitorSets) => CompetitorSets) => {
+    setCompetitorSets(prev => {
+        const newSets = update(prev);
+        saveCompetitorSets(newSets);
+        return newSets;
+    });
+  }, []);
+
+  const targetId = scanSettings.location?.id ?? null;
+  const activeCompetitorSet = targetId ? getCompetitorSet(competitorSets, targetId) : null;
+
+  const editCompetitorSet = useCallback((update: Parameters<typeof updateCompetitorSet>[2]) => {
+    if (targetId) updateCompetitorSets(prev => updateCompetitorSet(prev, targetId, update));
+  }, [targetId, updateCompetitorSets]);
+
+  const pinCompetitorPlace = useCallback(async (place: PlaceAutocompleteResult, map: google.maps.Map | null) => {
+    if (!map) return;
+    const business = await fetchPlaceDetails(place, map);
+    if (business) {
+        editCompetitorSet(set => pinCompetitor(set, business));
+        setBusinesses([]);
+    }
+  }, [fetchPlaceDetails, editCompetitorSet]);
+
+  const activeProject = getActiveProject(workspace);
+  const activeProjectId = activeProject?.id ?? null;
+
+  const addToHistory = useCallback((item: ScanHistoryItem) => {
+    setScanHistory(prev => [item, ...prev]);
+    saveScanHistoryItem(item)
+      .then(() => setStorageError(null))
+      .catch(handleStorageError)
+      .finally(refreshStorageUsage);
+  }, [handleStorageError, refreshStorageUsage]);
+
+  const updateScanDraft = useCallback((draft: ScanDraft | null) => {
+    setScanDraft(draft);
+    saveScanDraft(draft)
+      .then(() => setStorageError(null))
+      .catch(handleStorageError)
+      .finally(refreshStorageUsage);
+  }, [handleStorageError, refreshStorageUsage]);
+
+  const saveCheckpointAsDraft = useCallback(() => {
+    const checkpoint = scanCheckpointRef.current;
+    if (checkpoint && (checkpoint.results.length > 0 || checkpoint.partial)) updateScanDraft(checkpoint);
+  }, [updateScanDraft]);
+
+  const runScan = useCallback(async (settings: ScanSettings, projectId: string | null, recorded?: ScanResult[], draft?: ScanDraft) => {
+    if (!settings.location) return;
+    const control = createScanControl();
+    const runId = draft?.id ?? new Date().toISOString();
+    scanControlRef.current = control;
+    scanCheckpointRef.current = draft ?? null;
+    // Kept with the draft so a resumed replay scans its remaining keywords against the recorded competitors.
+    const replayed = recorded?.map(result => ({ ...result, rankings: [] }));
+    setIsScanPaused(false);
     setIsScanning(true);
     setScanCompleted(false);
     setScanResult(null);
+    setKeywordResults([]);
     setSelectedPoint(null);
     setShowHeatmap(false);
+    setCompareBaseId(null);
+    setIsReportOpen(false);
+    setScanError(null);
+    abortInsightRequests();
     setInsights({
         ranking: { status: 'idle', content: null, sources: [] },
         competitor: { status: 'idle', content: null, sources: [] },
         review: { status: 'idle', content: null, sources: [] },
     });
+    showChat([]);
 
     try {
-      const { businesses: competitors, sources: competitorSources } = await getCompetitorList(scanSettings.location, scanSettings.searchQuery);
-      
-      const onProgress = (progress: { current: number, total: number }) => setScanProgress(progress);
+      setLiveScan({ grid: buildGrid({ lat: settings.location.latitude, lng: settings.location.longitude }, settings.gridSize), keywordIndex: 0, rankings: [] });
+      const onProgress = (progress: KeywordScanProgress) => {
+        setScanProgress(progress);
+        setLiveScan(prev => prev && {
+          ...prev,
+          keywordIndex: progress.keywordIndex,
+          rankings: progress.keywordIndex === prev.keywordIndex ? [...prev.rankings, progress.point] : [progress.point],
+        });
+      };
       
-      const results = await generateScanResults(scanSettings, competitors, onProgress, competitorSources);
+      const results = await runKeywordScans(settings, onProgress, recorded, {
+        control,
+        draft,
+        onCheckpoint: checkpoint => {
+          scanCheckpointRef.current = { id: runId, settings, projectId: projectId ?? undefined, ...checkpoint, recorded: replayed, updatedAt: new Date().toISOString() };
+        },
+      });
+      // A finished scan no longer needs its draft; a draft from a different scan is kept.
+      setScanDraft(prev => (prev?.id === runId ? null : prev));
+      deleteScanDraft(runId).catch(handleStorageError);
       
-      setScanResult(results);
+      setKeywordResults(results);
+      setScanResult(results[0]);
+      setScanSettings(prev => ({ ...prev, searchQuery: results[0].keyword ?? prev.searchQuery }));
       setScanCompleted(true);
 
       const newHistoryItem: ScanHistoryItem = {
         id: new Date().toISOString(),
         timestamp: new Date().toLocaleString(),
-        settings: scanSettings,
-        result: results,
+        settings: { ...settings, searchQuery: results[0].keyword ?? settings.searchQuery },
+        result: results[0],
+        keywordResults: results,
+        projectId: projectId ?? undefined,
       };
-      setScanHistory(prev => {
-          const newHistory = [newHistoryItem, ...prev.slice(0, 9)];
-          localStorage.setItem('gmbScanHistory', JSON.stringify(newHistory));
-          return newHistory;
-      });
+      addToHistory(newHistoryItem);
 
 // FIX: Corrected the syntax for the catch block from `catch (error) =>` to `catch (error)`.
     } catch (error) {
-      console.error("Failed to complete scan:", error);
+      // Cancelled and failed scans keep their completed points so they can be resumed.
+      saveCheckpointAsDraft();
+      if (!control.signal.aborted) {
+        console.error("Failed to complete scan:", error);
+        setScanError(error instanceof Error ? error.message : 'The scan failed.');
+      }
     } finally {
+      scanControlRef.current = null;
+      scanCheckpointRef.current = null;
+      setIsScanPaused(false);
       setIsScanning(false);
       setScanProgress(null);
+      setLiveScan(null);
+      // The pipeline saves newly discovered competitors to storage; pick them up.
+      setCompetitorSets(loadCompetitorSets());
     }
-  }, [scanSettings]);
+  }, [addToHistory, abortInsightRequests, showChat, saveCheckpointAsDraft, handleStorageError]);
+
+  // Pausing also saves the draft, so a scan paused and then closed can still be resumed.
+  const pauseScan = useCallback(() => {
+    scanControlRef.current?.pause();
+    setIsScanPaused(true);
+    saveCheckpointAsDraft();
+  }, [saveCheckpointAsDraft]);
+
+  const resumeScan = useCallback(() => {
+    scanControlRef.current?.resume();
+    setIsScanPaused(false);
+  }, []);
+
+  const cancelScan = useCallback(() => scanControlRef.current?.cancel(), []);
+
+  const resumeScanDraft = useCallback(() => {
+    if (!scanDraft) return;
+    setScanSettings(scanDraft.settings);
+    runScan(scanDraft.settings, scanDraft.projectId ?? null, scanDraft.recorded, scanDraft);
+  }, [scanDraft, runScan]);
+
+  const discardScanDraft = useCallback(() => updateScanDraft(null), [updateScanDraft]);
+
+  // Closing the tab mid-scan keeps what has been scanned so far.
+  useEffect(() => {
+    if (!isScanning) return;
+    const handleBeforeUnload = () => saveCheckpointAsDraft();
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [isScanning, saveCheckpointAsDraft]);
+
+  const handleScan = useCallback(() => runScan(scanSettings, activeProjectId), [runScan, scanSettings, activeProjectId]);
+
+  const replayScanFromHistory = useCallback((item: ScanHistoryItem) => {
+    const results = getHistoryResults(item);
+    const settings = { ...item.settings, keywords: results.map(r => r.keyword ?? item.settings.searchQuery), seed: item.result.seed };
+    setScanSettings(settings);
+    runScan(settings, item.projectId ?? null, results);
+  }, [runScan]);
+
+  const createWorkspaceProject = useCallback((name: string) => {
+    const project = createProject(name, scanSettings);
+    updateWorkspace(prev => ({ projects: [...prev.projects, project], activeProjectId: project.id }));
+  }, [scanSettings, updateWorkspace]);
+
+  const selectProject = useCallback((projectId: string | null) => {
+    updateWorkspace(prev => ({ ...prev, activeProjectId: projectId }));
+  }, [updateWorkspace]);
+
+  const saveCurrentBusiness = useCallback(() => {
+    if (activeProjectId) updateWorkspace(prev => saveBusinessToProject(prev, activeProjectId, scanSettings));
+  }, [activeProjectId, scanSettings, updateWorkspace]);
+
+  const saveProjectDefaults = useCallback(() => {
+    if (activeProjectId) updateWorkspace(prev => setProjectDefaults(prev, activeProjectId, scanSettings));
+  }, [activeProjectId, scanSettings, updateWorkspace]);
+
+  const removeSavedBusiness = useCallback((businessId: string) => {
+    if (activeProjectId) updateWorkspace(prev => removeBusinessFromProject(prev, activeProjectId, businessId));
+  }, [activeProjectId, updateWorkspace]);
+
+  const applySavedBusiness = useCallback((saved: SavedBusiness) => {
+    if (activeProject) setScanSettings(prev => getSavedBusinessSettings(activeProject, saved, prev));
+  }, [activeProject]);
+
+  // One-click scan of a saved business with its (or the project's) keywords and grid.
+  const scanSavedBusiness = useCallback((saved: SavedBusiness) => {
+    if (!activeProject) return;
+    const settings = getSavedBusinessSettings(activeProject, saved, scanSettings);
+    setScanSettings(settings);
+    runScan(settings, activeProject.id);
+  }, [activeProject, scanSettings, runScan]);
+
+  const updateMonitoredJobs = useCallback((update: (jobs: MonitoredJob[]) => MonitoredJob[]) => {
+    setMonitoredJobs(prev => {
+        const newJobs = update(prev);
+        saveMonitoredJobs(newJobs);
+        return newJobs;
+    });
+  }, []);
+
+  // The project's scans and monitored jobs are kept, moved out of the project so "All projects" still shows them.
+  const deleteWorkspaceProject = useCallback((projectId: string) => {
+    updateWorkspace(prev => deleteProject(prev, projectId));
+    updateMonitoredJobs(prev => prev.map(job => (job.projectId === projectId ? { ...job, projectId: undefined } : job)));
+    const orphaned = scanHistoryRef.current.filter(item => item.projectId === projectId).map(item => ({ ...item, projectId: undefined }));
+    if (orphaned.length === 0) return;
+    const ids = new Set(orphaned.map(item => item.id));
+    setScanHistory(prev => prev.map(item => (ids.has(item.id) ? { ...item, projectId: undefined } : item)));
+    Promise.all(orphaned.map(saveScanHistoryItem))
+      .then(() => setStorageError(null))
+      .catch(handleStorageError)
+      .finally(refreshStorageUsage);
+  }, [updateWorkspace, updateMonitoredJobs, handleStorageError, refreshStorageUsage]);
+
+  const addToMonitoring = useCallback((cadence: MonitorCadence) => {
+    if (!scanSettings.location) return;
+    updateMonitoredJobs(prev => addMonitoredJob(prev, scanSettings, cadence, activeProjectId ?? undefined));
+  }, [scanSettings, activeProjectId, updateMonitoredJobs]);
+
+  const toggleMonitoredJobPaused = useCallback((id: string) => {
+    updateMonitoredJobs(prev => prev.map(job => job.id === id ? setJobPaused(job, job.status === 'active') : job));
+  }, [updateMonitoredJobs]);
+
+  const deleteMonitoredJob = useCallback((id: string) => {
+    updateMonitoredJobs(prev => prev.filter(job => job.id !== id));
+  }, [updateMonitoredJobs]);
+
+  // Scheduler: while the app is open, re-run any monitored job whose next run time has passed.
+  const monitoredJobsRef = useRef(monitoredJobs);
+  monitoredJobsRef.current = monitoredJobs;
+  const isSchedulerRunningRef = useRef(false);
+
+  useEffect(() => {
+    const runDueJobs = async () => {
+        if (isSchedulerRunningRef.current) return;
+        const dueJobs = getDueJobs(monitoredJobsRef.current);
+        if (dueJobs.length === 0) return;
+
+        isSchedulerRunningRef.current = true;
+        for (const job of dueJobs) {
+            const runAt = new Date();
+            try {
+                const results = await runKeywordScans(job.settings, () => {});
+                const result = results[0];
+                const historyItem: ScanHistoryItem = {
+                    id: runAt.toISOString(),
+                    timestamp: runAt.toLocaleString(),
+                    settings: job.settings,
+                    result,
+                    keywordResults: results,
+                    monitorJobId: job.id,
+                    projectId: job.projectId,
+                };
+                addToHistory(historyItem);
+                updateMonitoredJobs(prev => prev.map(j => j.id === job.id
+                    ? recordJobRun(j, { runAt: runAt.toISOString(), status: 'success', historyItemId: historyItem.id, averageRank: result.summary.averageRank })
+                    : j));
+            } catch (error) {
+                console.error(`Monitored scan ${job.id} failed:`, error);
+                const message = error instanceof Error ? error.message : 'An unknown error occurred.';
+                updateMonitoredJobs(prev => prev.map(j => j.id === job.id
+                    ? recordJobRun(j, { runAt: runAt.toISOString(), status: 'error', error: message })
+                    : j));
+            }
+        }
+        setCompetitorSets(loadCompetitorSets());
+        isSchedulerRunningRef.current = false;
+    };
+
+    runDueJobs();
+    const interval = setInterval(runDueJobs, SCHEDULER_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [addToHistory, updateMonitoredJobs]);
 
   const loadScanFromHistory = (item: ScanHistoryItem) => {
-    setScanSettings(item.settings);
-    setScanResult(item.result);
+    setTrendsView(null);
+    setIsReportOpen(false);
+    const results = getHistoryResults(item);
+    setScanSettings({ ...item.settings, keywords: results.map(r => r.keyword ?? item.settings.searchQuery), searchQuery: results[0].keyword ?? item.settings.searchQuery });
+    setKeywordResults(results);
+    setScanResult(results[0]);
     setScanCompleted(true);
     setSelectedPoint(null);
     setShowHeatmap(false);
-    setInsights({
-        ranking: { status: 'idle', content: null, sources: [] },
-        competitor: { status: 'idle', content: null, sources: [] },
-        review: { status: 'idle', content: null, sources: [] },
-    });
+    setCompareBaseId(null);
+    abortInsightRequests();
+    setInsights(getSavedInsights(item, results[0].keyword ?? item.settings.searchQuery));
+    showChat(getSavedChat(item, results[0].keyword ?? item.settings.searchQuery));
+  };
+
+  // Imported scans replace any saved scan with the same id, so re-importing a file is harmless.
+  const importScansToHistory = (imported: ScanHistoryItem[]) => {
+    // Scans from a project this workspace doesn't have would be hidden; file them under the active project.
+    const projectIds = new Set(workspace.projects.map(project => project.id));
+    const items = imported.map(item => (!item.projectId || projectIds.has(item.projectId) ? item : { ...item, projectId: activeProjectId ?? undefined }));
+    const ids = new Set(items.map(item => item.id));
+    setScanHistory(prev => [...items, ...prev.filter(item => !ids.has(item.id))].sort((a, b) => b.id.localeCompare(a.id)));
+    Promise.all(items.map(saveScanHistoryItem))
+      .then(() => setStorageError(null))
+      .catch(handleStorageError)
+      .finally(refreshStorageUsage);
   };
 
   const deleteScanFromHistory = (id: string) => {
-    setScanHistory(prev => {
-        const newHistory = prev.filter(item => item.id !== id);
-        localStorage.setItem('gmbScanHistory', JSON.stringify(newHistory));
-        return newHistory;
-    });
+    setScanHistory(prev => prev.filter(item => item.id !== id));
+    deleteScanHistoryItem(id)
+      .catch(handleStorageError)
+      .finally(refreshStorageUsage);
   };
   
   const handleBackToSettings = () => {
+      setIsReportOpen(false);
       setScanResult(null);
+      setKeywordResults([]);
       setScanCompleted(false);
       setSelectedPoint(null);
       setShowHeatmap(false);
+      setCompareBaseId(null);
+      abortInsightRequests();
       setInsights({
         ranking: { status: 'idle', content: null, sources: [] },
         competitor: { status: 'idle', content: null, sources: [] },
         review: { status: 'idle', content: null, sources: [] },
       });
+      showChat([]);
   };
 
+  const selectKeyword = useCallback((keyword: string) => {
+    const result = keywordResults.find(r => r.keyword === keyword);
+    if (!result || result === scanResult) return;
+    setScanResult(result);
+    setScanSettings(prev => ({ ...prev, searchQuery: keyword }));
+    setSelectedPoint(null);
+    setCompareBaseId(null);
+    abortInsightRequests();
+    const historyItem = scanHistory.find(item => getHistoryResults(item).includes(result));
+    setInsights(getSavedInsights(historyItem, keyword));
+    showChat(getSavedChat(historyItem, keyword));
+  }, [keywordResults, scanResult, scanHistory, abortInsightRequests, showChat]);
+
+  // The history entry for the scan on screen; falls back to an unsaved item so exports always work.
+  const currentHistoryItem = useMemo((): ScanHistoryItem | null => {
+    if (!scanResult) return null;
+    const saved = scanHistory.find(item => getHistoryResults(item).some(r => r.rankings === scanResult.rankings));
+    const now = new Date();
+    return saved ?? { id: now.toISOString(), timestamp: now.toLocaleString(), settings: scanSettings, result: scanResult, keywordResults: keywordResults.length > 0 ? keywordResults : undefined };
+  }, [scanHistory, scanResult, scanSettings, keywordResults]);
+
+  // Scans of the same business and keyword that the current result can be diffed against.
+  const comparisonCandidates = useMemo(() => {
+    if (!scanResult || !scanSettings.location) return [];
+    return scanHistory.filter(item => {
+      const result = getHistoryResultForKeyword(item, scanSettings.searchQuery);
+      // Compare by rankings so the scan on screen never lists itself, even for legacy items.
+      return result && result.rankings !== scanResult.rankings
+        && item.settings.location?.id === scanSettings.location!.id;
+    });
+  }, [scanHistory, scanResult, scanSettings]);
+
+  const gridDiff = useMemo(() => {
+    const base = comparisonCandidates.find(item => item.id === compareBaseId);
+    const baseResult = base && getHistoryResultForKeyword(base, scanSettings.searchQuery);
+    return baseResult && scanResult ? diffScans(baseResult, scanResult) : null;
+  }, [comparisonCandidates, compareBaseId, scanResult, scanSettings.searchQuery]);
+
+  const rankDeltas = useMemo(
+    () => gridDiff ? new Map(gridDiff.points.map(p => [p.pointId, p.delta])) : null,
+    [gridDiff]
+  );
+
   const fetchInsights = useCallback(async (type: InsightType) => {
     if (!scanSettings.location || !scanResult) return;
+    // Captured up front so the insight is saved to the scan it was requested for.
+    const historyItem = scanHistory.find(item => item.id === currentHistoryItem?.id);
+    const keyword = scanSettings.searchQuery;
+    insightControllersRef.current.get(type)?.abort();
+    const controller = new AbortController();
+    insightControllersRef.current.set(type, controller);
 
     setInsights(prev => ({ ...prev, [type]: { ...prev[type], status: 'loading' } }));
     
     try {
       let insightData;
       if (type === 'ranking') {
-          insightData = await getRankingInsights(scanSettings.location, scanSettings.searchQuery, scanResult);
-      } else if (type === 'competitor') {
-          insightData = await getCompetitorGapAnalysis(scanSettings.location, scanSettings.searchQuery);
-      } else { // review
-          insightData = await getReviewVolumeAnalysis(scanSettings.location, scanSettings.searchQuery);
+          insightData = await getRankingInsights(scanSettings.location, scanSettings.searchQuery, scanResult, controller.signal);
+      } else {
+          // Both analyses compare the target with the scan's competitors, so they need profile facts for each.
+          if (mapInstance && window.google?.maps?.places && !placesServiceRef.current) {
+              placesServiceRef.current = new window.google.maps.places.PlacesService(mapInstance);
+          }
+          const profiles = await resolveBusinessProfiles(
+              scanSettings.location,
+              [scanSettings.location, ...getLandscapeCompetitors(scanSettings.location, scanResult)],
+              { placesService: placesServiceRef.current, signal: controller.signal }
+          );
+          const analyze = type === 'competitor' ? getCompetitorGapAnalysis : getReviewVolumeAnalysis;
+          insightData = await analyze(scanSettings.location, scanSettings.searchQuery, scanResult, profiles, controller.signal);
       }
+      if (controller.signal.aborted) return;
       
       setInsights(prev => ({ ...prev, [type]: { status: 'success', content: insightData.content, sources: insightData.sources } }));
+
+      if (historyItem) {
+        const saved = { content: insightData.content, sources: insightData.sources, generatedAt: new Date().toISOString() };
+        // Merge into the latest copy so insights fetched in parallel don't overwrite each other.
+        const latest = scanHistoryRef.current.find(item => item.id === historyItem.id) ?? historyItem;
+        const updated = withSavedInsight(latest, keyword, type, saved);
+        scanHistoryRef.current = scanHistoryRef.current.map(item => (item.id === updated.id ? updated : item));
+        setScanHistory(prev => prev.map(item => (item.id === updated.id ? updated : item)));
+        saveScanHistoryItem(updated)
+          .then(() => setStorageError(null))
+          .catch(handleStorageError)
+          .finally(refreshStorageUsage);
+      }
     } catch (error) {
+      // Whoever aborted the request has already reset the insight.
+      if (controller.signal.aborted) return;
       console.error(`Error fetching ${type} insights:`, error);
       const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
       setInsights(prev => ({ ...prev, [type]: { status: 'error', content: `Failed to load insights. ${errorMessage}`, sources: [] } }));
+    } finally {
+      if (insightControllersRef.current.get(type) === controller) insightControllersRef.current.delete(type);
     }
-  }, [scanSettings, scanResult]);
+  }, [scanSettings, scanResult, scanHistory, currentHistoryItem, mapInstance, handleStorageError, refreshStorageUsage]);
 
+  const sendChatMessage = useCallback(async (question: string) => {
+    if (!scanSettings.location || !scanResult || chatControllerRef.current) return;
+    // Captured up front so the answer is saved to the scan it was asked about.
+    const historyItem = scanHistory.find(item => item.id === currentHistoryItem?.id);
+    const keyword = scanSettings.searchQuery;
+    const controller = new AbortController();
+    chatControllerRef.current = controller;
+
+    const asked: ChatMessage = { role: 'user', content: question, sources: [], createdAt: new Date().toISOString() };
+    setChatMessages(prev => [...prev, asked]);
+    setIsChatLoading(true);
+    setChatError(null);
+
+    try {
+      const answer = await askAboutScan(scanSettings.location, keyword, scanResult, chatMessages, question, controller.signal);
+      if (controller.signal.aborted) return;
+      const answered: ChatMessage = { role: 'model', content: answer.content, sources: answer.sources, createdAt: new Date().toISOString() };
+      // Only answer into the conversation that asked, in case another scan's was shown meanwhile.
+      setChatMessages(prev => (prev.includes(asked) ? [...prev, answered] : prev));
+
+      if (historyItem) {
+        const latest = scanHistoryRef.current.find(item => item.id === historyItem.id) ?? historyItem;
+        const updated = withSavedChat(latest, keyword, [...getSavedChat(latest, keyword), asked, answered]);
+        scanHistoryRef.current = scanHistoryRef.current.map(item => (item.id === updated.id ? updated : item));
+        setScanHistory(prev => prev.map(item => (item.id === updated.id ? updated : item)));
+        saveScanHistoryItem(updated)
+          .then(() => setStorageError(null))
+          .catch(handleStorageError)
+          .finally(refreshStorageUsage);
+      }
+    } catch (error) {
+      // Whoever aborted the request has already reset the conversation.
+      if (controller.signal.aborted) return;
+      console.error('Error answering chat question:', error);
+      // Unanswered questions aren't kept, so the saved conversation always alternates question and answer.
+      setChatMessages(prev => prev.filter(message => message !== asked));
+      setChatError({ message: `Failed to get an answer. ${error instanceof Error ? error.message : 'An unknown error occurred.'}`, question });
+    } finally {
+      if (chatControllerRef.current === controller) {
+        chatControllerRef.current = null;
+        setIsChatLoading(false);
+      }
+    }
+  }, [scanSettings, scanResult, scanHistory, currentHistoryItem, chatMessages, handleStorageError, refreshStorageUsage]);
 
-  const [mapInstance, setMapInstance] = useState<google.maps.Map | null>(null);
 
   return (
     <div className="bg-gray-50 min-h-screen flex flex-col text-gray-800">
-      <Header />
+      <Header workspace={workspace} onSelectProject={selectProject} onCreateProject={createWorkspaceProject} onDeleteProject={deleteWorkspaceProject} />
       <main className="flex-grow flex h-[calc(100vh-4rem)]">
         <ErrorBoundary>
             <Sidebar
@@ -285,27 +745,81 @@ const App: React.FC = () => {
               onSelectBusiness={(place) => handlePlaceSelect(place, mapInstance)}
               insights={insights}
               fetchInsights={fetchInsights}
+              chatMessages={chatMessages}
+              isChatLoading={isChatLoading}
+              chatError={chatError}
+              onSendChatMessage={sendChatMessage}
               selectedPoint={selectedPoint}
               onHoverCompetitor={setHoveredCompetitorId}
               scanProgress={scanProgress}
-              scanHistory={scanHistory}
+              scanError={scanError}
+              scanHistory={filterHistoryByProject(scanHistory, activeProjectId)}
               onLoadHistory={loadScanFromHistory}
               onDeleteHistory={deleteScanFromHistory}
+              onReplayHistory={replayScanFromHistory}
+              isScanPaused={isScanPaused}
+              onPauseScan={pauseScan}
+              onResumeScan={resumeScan}
+              onCancelScan={cancelScan}
+              scanDraft={scanDraft}
+              onResumeScanDraft={resumeScanDraft}
+              onDiscardScanDraft={discardScanDraft}
+              competitorSet={activeCompetitorSet}
+              onPinCompetitorPlace={(place) => pinCompetitorPlace(place, mapInstance)}
+              onPinCompetitor={(business) => editCompetitorSet(set => pinCompetitor(set, business))}
+              onUnpinCompetitor={(id) => editCompetitorSet(set => unpinCompetitor(set, id))}
+              onExcludeCompetitor={(business) => editCompetitorSet(set => excludeCompetitor(set, business))}
+              onIncludeCompetitor={(id) => editCompetitorSet(set => includeCompetitor(set, id))}
+              onSetDiscoverCount={(count) => editCompetitorSet(set => setDiscoverCount(set, count))}
+              onRediscoverCompetitors={() => editCompetitorSet(clearDiscovered)}
+              onImportHistory={importScansToHistory}
+              storageUsage={storageUsage}
+              storageError={storageError}
+              monitoredJobs={activeProjectId ? monitoredJobs.filter(job => job.projectId === activeProjectId) : monitoredJobs}
+              activeProject={activeProject}
+              onSaveBusiness={saveCurrentBusiness}
+              onSaveProjectDefaults={saveProjectDefaults}
+              onUseSavedBusiness={applySavedBusiness}
+              onScanSavedBusiness={scanSavedBusiness}
+              onRemoveSavedBusiness={removeSavedBusiness}
+              onToggleMonitoredJob={toggleMonitoredJobPaused}
+              onDeleteMonitoredJob={deleteMonitoredJob}
+              onShowTrends={(groupKey) => setTrendsView({ groupKey: groupKey ?? null })}
+              comparisonCandidates={comparisonCandidates}
+              compareBaseId={compareBaseId}
+              onCompareWith={setCompareBaseId}
+              gridDiff={gridDiff}
+              keywordResults={keywordResults}
+              onSelectKeyword={selectKeyword}
             />
         </ErrorBoundary>
         <div className="flex-grow relative">
           <ErrorBoundary>
             <MapDisplay 
               onMapLoad={setMapInstance}
-              results={scanResult?.rankings ?? []} 
+              results={scanResult?.rankings ?? liveScan?.rankings ?? []} 
               businessLocation={scanSettings.location}
               onSelectPoint={setSelectedPoint}
               selectedPoint={selectedPoint}
               hoveredCompetitorId={hoveredCompetitorId}
               showHeatmap={showHeatmap}
+              rankDeltas={rankDeltas}
+              placeholderPoints={liveScan?.grid}
             />
           </ErrorBoundary>
           
+          {trendsView && (
+            <ErrorBoundary>
+              <TrendsView history={filterHistoryByProject(scanHistory, activeProjectId)} initialGroupKey={trendsView.groupKey} onLoadHistory={loadScanFromHistory} onClose={() => setTrendsView(null)} />
+            </ErrorBoundary>
+          )}
+          
+          {isReportOpen && scanResult && (
+            <ErrorBoundary>
+              <ReportBuilder scanResult={scanResult} scanSettings={scanSettings} insights={insights} onClose={() => setIsReportOpen(false)} />
+            </ErrorBoundary>
+          )}
+          
           <div aria-live="polite" className="sr-only">
             {scanCompleted && "Scan has completed."}
           </div>
@@ -315,7 +829,7 @@ const App: React.FC = () => {
              Your scan has been completed. <button onClick={() => setScanCompleted(false)} className="font-bold underline ml-2">Close</button>
            </div>
           )}
-          {scanResult && <ActionPanel scanResult={scanResult} scanSettings={scanSettings} isHeatmapVisible={showHeatmap} onToggleHeatmap={setShowHeatmap} />}
+          {scanResult && currentHistoryItem && <ActionPanel key={currentHistoryItem.id} scanResult={scanResult} scanSettings={scanSettings} historyItem={currentHistoryItem} isHeatmapVisible={showHeatmap} onToggleHeatmap={setShowHeatmap} onAddToMonitoring={addToMonitoring} onOpenReport={() => setIsReportOpen(true)} />}
         </div>
       </main>
     </div>
@@ -1,55 +1,117 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { ClipboardIcon } from './icons/ClipboardIcon';
 import { DownloadIcon } from './icons/DownloadIcon';
 import { FireIcon } from './icons/FireIcon';
-import { ScanResult, ScanSettings } from '../types';
+import { DocumentIcon } from './icons/DocumentIcon';
+import { ScanResult, ScanSettings, ScanHistoryItem, MonitorCadence } from '../types';
+import { CADENCE_LABELS } from '../services/monitoringService.ts';
+import { buildLongCsv, buildScanExport, downloadFile, getExportFilename } from '../services/exportService.ts';
+import { buildGeoJson, buildKml, CellGeometry, CELL_GEOMETRY_LABELS } from '../services/geoExportService.ts';
 
 interface ActionPanelProps {
     scanResult: ScanResult;
     scanSettings: ScanSettings;
+    historyItem: ScanHistoryItem; // The scan on screen, with every keyword's result
     isHeatmapVisible: boolean;
     onToggleHeatmap: (visible: boolean) => void;
+    onAddToMonitoring: (cadence: MonitorCadence) => void;
+    onOpenReport: () => void;
 }
 
-const ActionPanel: React.FC<ActionPanelProps> = ({ scanResult, scanSettings, isHeatmapVisible, onToggleHeatmap }) => {
-    
-    const handleExport = () => {
-        const { rankings } = scanResult;
-        if (rankings.length === 0) {
+const ActionPanel: React.FC<ActionPanelProps> = ({ scanResult, scanSettings, historyItem, isHeatmapVisible, onToggleHeatmap, onAddToMonitoring, onOpenReport }) => {
+    const [isCadenceMenuOpen, setIsCadenceMenuOpen] = useState(false);
+    const [monitoredCadence, setMonitoredCadence] = useState<MonitorCadence | null>(null);
+    const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+    const [cellGeometry, setCellGeometry] = useState<CellGeometry>('voronoi');
+
+    const handleAddToMonitoring = (cadence: MonitorCadence) => {
+        onAddToMonitoring(cadence);
+        setMonitoredCadence(cadence);
+        setIsCadenceMenuOpen(false);
+    };
+
+    const handleExport = (format: 'csv' | 'json' | 'geojson' | 'kml') => {
+        if (scanResult.rankings.length === 0) {
             alert("No data to export.");
             return;
         }
 
-        const headers = ["ID", "Latitude", "Longitude", "Your Rank", "Top Competitor"];
-        const rows = rankings.map(point => [
-            point.id,
-            point.lat,
-            point.lng,
-            point.rank,
-            point.competitorRanks.find(c => c.rank === 1)?.business.name ?? "N/A"
-        ]);
-
-        const csvContent = "data:text/csv;charset=utf-8," 
-            + [headers.join(","), ...rows.map(e => e.join(","))].join("\n");
-
-        const link = document.createElement("a");
-        link.setAttribute("href", encodeURI(csvContent));
-        const filename = `GMB_Scan_${scanSettings.location?.name}_${new Date().toISOString().split('T')[0]}.csv`;
-        link.setAttribute("download", filename);
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
+        const name = scanSettings.location?.name ?? 'Scan';
+        if (format === 'csv') {
+            downloadFile(buildLongCsv(historyItem), getExportFilename(name, 'csv'), 'text/csv;charset=utf-8');
+        } else if (format === 'json') {
+            downloadFile(buildScanExport([historyItem]), getExportFilename(name, 'json'), 'application/json');
+        } else if (format === 'geojson') {
+            downloadFile(buildGeoJson(scanResult, scanSettings, cellGeometry), getExportFilename(name, 'geojson'), 'application/geo+json');
+        } else {
+            downloadFile(buildKml(scanResult, scanSettings, cellGeometry), getExportFilename(name, 'kml'), 'application/vnd.google-earth.kml+xml');
+        }
+        setIsExportMenuOpen(false);
     };
 
     return (
         <div className="absolute top-4 right-4 bg-white rounded-lg shadow-lg p-2 space-y-2 z-20">
-            <button className="w-full flex items-center gap-3 text-left p-2 rounded-md hover:bg-gray-100 text-sm font-medium text-gray-400 cursor-not-allowed" disabled>
-                <ClipboardIcon />
-                <span>Add To Monitoring</span>
-            </button>
-            <button onClick={handleExport} className="w-full flex items-center gap-3 text-left p-2 rounded-md hover:bg-gray-100 text-sm font-medium">
-                <DownloadIcon />
-                <span>Export Report</span>
+            <div>
+                <button
+                    aria-expanded={isCadenceMenuOpen}
+                    aria-controls="monitoring-cadence-menu"
+                    onClick={() => setIsCadenceMenuOpen(!isCadenceMenuOpen)}
+                    disabled={!scanSettings.location}
+                    className="w-full flex items-center gap-3 text-left p-2 rounded-md hover:bg-gray-100 text-sm font-medium disabled:text-gray-400 disabled:cursor-not-allowed"
+                >
+                    <ClipboardIcon />
+                    <span>{monitoredCadence ? `Monitoring ${CADENCE_LABELS[monitoredCadence].toLowerCase()}` : 'Add To Monitoring'}</span>
+                </button>
+                {isCadenceMenuOpen && (
+                    <div id="monitoring-cadence-menu" role="group" aria-label="Monitoring cadence" className="flex gap-1 px-2 pb-2">
+                        {(Object.keys(CADENCE_LABELS) as MonitorCadence[]).map(cadence => (
+                            <button key={cadence} onClick={() => handleAddToMonitoring(cadence)} className="flex-1 text-xs font-semibold bg-indigo-50 text-indigo-700 rounded-md px-2 py-1 hover:bg-indigo-100">
+                                {CADENCE_LABELS[cadence]}
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
+            <div>
+                <button
+                    aria-expanded={isExportMenuOpen}
+                    aria-controls="export-format-menu"
+                    onClick={() => setIsExportMenuOpen(!isExportMenuOpen)}
+                    className="w-full flex items-center gap-3 text-left p-2 rounded-md hover:bg-gray-100 text-sm font-medium"
+                >
+                    <DownloadIcon />
+                    <span>Export Report</span>
+                </button>
+                {isExportMenuOpen && (
+                    <div id="export-format-menu" role="group" aria-label="Export format" className="px-2 pb-2 space-y-1">
+                        <div className="flex gap-1">
+                            <button onClick={() => handleExport('csv')} title="One row per grid point per business" className="flex-1 text-xs font-semibold bg-indigo-50 text-indigo-700 rounded-md px-2 py-1 hover:bg-indigo-100">
+                                CSV
+                            </button>
+                            <button onClick={() => handleExport('json')} title="Complete scan, re-importable into history" className="flex-1 text-xs font-semibold bg-indigo-50 text-indigo-700 rounded-md px-2 py-1 hover:bg-indigo-100">
+                                JSON
+                            </button>
+                        </div>
+                        <div className="flex gap-1">
+                            <button onClick={() => handleExport('geojson')} title="For QGIS and other GIS tools" className="flex-1 text-xs font-semibold bg-indigo-50 text-indigo-700 rounded-md px-2 py-1 hover:bg-indigo-100">
+                                GeoJSON
+                            </button>
+                            <button onClick={() => handleExport('kml')} title="For Google Earth" className="flex-1 text-xs font-semibold bg-indigo-50 text-indigo-700 rounded-md px-2 py-1 hover:bg-indigo-100">
+                                KML
+                            </button>
+                        </div>
+                        <label htmlFor="export-cells" className="sr-only">Cell geometry for GeoJSON and KML</label>
+                        <select id="export-cells" value={cellGeometry} onChange={(e) => setCellGeometry(e.target.value as CellGeometry)} className="w-full text-xs border-gray-300 rounded-md py-1">
+                            {(Object.keys(CELL_GEOMETRY_LABELS) as CellGeometry[]).map(cells => (
+                                <option key={cells} value={cells}>{CELL_GEOMETRY_LABELS[cells]}</option>
+                            ))}
+                        </select>
+                    </div>
+                )}
+            </div>
+            <button onClick={onOpenReport} className="w-full flex items-center gap-3 text-left p-2 rounded-md hover:bg-gray-100 text-sm font-medium">
+                <DocumentIcon />
+                <span>Client Report</span>
             </button>
             <div className="border-t border-gray-200 my-1"></div>
             <div className="flex items-center justify-between p-2">
@@ -0,0 +1,132 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Business, CompetitorSet, PlaceAutocompleteResult } from '../types';
+import { DISCOVER_COUNT_OPTIONS } from '../services/competitorSetService.ts';
+import { ChevronUpIcon } from './icons/ChevronUpIcon';
+import { ChevronDownIcon } from './icons/ChevronDownIcon';
+
+interface CompetitorSetPanelProps {
+    target: Business;
+    competitorSet: CompetitorSet;
+    businesses: PlaceAutocompleteResult[]; // Places autocomplete results for the pin search
+    onSearch: (query: string) => void;
+    isSearching: boolean;
+    onPin: (place: PlaceAutocompleteResult) => void;
+    onUnpin: (businessId: string) => void;
+    onInclude: (businessId: string) => void;
+    onSetDiscoverCount: (count: number) => void;
+    onRediscover: () => void;
+    disabled: boolean;
+}
+
+const CompetitorSetPanel: React.FC<CompetitorSetPanelProps> = ({
+    target, competitorSet, businesses, onSearch, isSearching, onPin, onUnpin, onInclude, onSetDiscoverCount, onRediscover, disabled
+}) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [query, setQuery] = useState('');
+    const searchTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const { pinned, excluded, discoverCount, discovered } = competitorSet;
+    const savedKeywords = Object.keys(discovered);
+    const pinnedIds = new Set([target.id, ...pinned.map(b => b.id)]);
+    const suggestions = query.trim().length >= 3 ? businesses.filter(b => !pinnedIds.has(b.id)) : [];
+
+    useEffect(() => () => {
+        if (searchTimeoutRef.current) clearTimeout(searchTimeoutRef.current);
+    }, []);
+
+    const handleQueryChange = (text: string) => {
+        setQuery(text);
+        if (searchTimeoutRef.current) clearTimeout(searchTimeoutRef.current);
+        if (text.trim().length >= 3) {
+            searchTimeoutRef.current = setTimeout(() => onSearch(text), 500);
+        }
+    };
+
+    const handlePin = (place: PlaceAutocompleteResult) => {
+        onPin(place);
+        setQuery('');
+    };
+
+    return (
+        <div>
+            <button aria-expanded={isOpen} aria-controls="competitor-set-panel" onClick={() => setIsOpen(!isOpen)} className="w-full flex justify-between items-center text-left font-medium text-gray-700">
+                <span>Competitors <span className="text-xs text-gray-500">({pinned.length} pinned, {excluded.length} excluded)</span></span>
+                {isOpen ? <ChevronUpIcon /> : <ChevronDownIcon />}
+            </button>
+            {isOpen && (
+                <div id="competitor-set-panel" className="mt-2 space-y-3">
+                    <div className="flex items-center gap-2">
+                        <label htmlFor="discover-count" className="text-gray-700">Discover</label>
+                        <select
+                            id="discover-count"
+                            value={discoverCount}
+                            onChange={(e) => onSetDiscoverCount(Number(e.target.value))}
+                            disabled={disabled}
+                            className="border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 text-sm py-1"
+                        >
+                            {DISCOVER_COUNT_OPTIONS.map(count => <option key={count} value={count}>{count}</option>)}
+                        </select>
+                        <span className="text-gray-700">competitors</span>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                        {savedKeywords.length > 0
+                            ? <>Saved set reused for {savedKeywords.map(k => `"${k}"`).join(', ')}. <button onClick={onRediscover} disabled={disabled} className="font-semibold text-indigo-600 hover:text-indigo-800 disabled:text-indigo-300">Rediscover</button></>
+                            : 'Competitors are discovered on the next scan and reused after that.'}
+                    </p>
+
+                    <div>
+                        <label htmlFor="pin-competitor" className="text-gray-700">Pin a competitor</label>
+                        <div className="relative">
+                            <input
+                                id="pin-competitor"
+                                type="text"
+                                placeholder="Search for a rival business"
+                                value={query}
+                                onChange={(e) => handleQueryChange(e.target.value)}
+                                disabled={disabled}
+                                className="w-full mt-1 border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 disabled:bg-gray-100"
+                            />
+                            {isSearching && query && <div role="status" className="absolute top-3 right-3 h-4 w-4 animate-spin rounded-full border-b-2 border-indigo-500"><span className="sr-only">Searching...</span></div>}
+                            {suggestions.length > 0 && (
+                                <ul role="listbox" aria-label="Competitor suggestions" className="absolute z-10 w-full bg-white border border-gray-300 rounded-md mt-1 shadow-lg max-h-48 overflow-auto">
+                                    {suggestions.map(place => (
+                                        <li key={place.id} role="option" aria-selected="false" tabIndex={0}
+                                            onClick={() => handlePin(place)}
+                                            onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') { e.preventDefault(); handlePin(place); } }}
+                                            className="px-3 py-2 hover:bg-gray-100 cursor-pointer focus:bg-gray-100 focus:outline-none">
+                                            <p className="font-semibold">{place.name}</p>
+                                            <p className="text-xs text-gray-500">{place.address}</p>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                    </div>
+
+                    {pinned.length > 0 && (
+                        <ul aria-label="Pinned competitors" className="space-y-1">
+                            {pinned.map(b => (
+                                <li key={b.id} className="flex items-center justify-between gap-2 text-xs">
+                                    <span className="truncate font-medium" title={b.address}>{b.name}</span>
+                                    <button onClick={() => onUnpin(b.id)} disabled={disabled} aria-label={`Unpin ${b.name}`} className="font-semibold text-gray-500 hover:text-gray-800 disabled:text-gray-300">Unpin</button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    {excluded.length > 0 && (
+                        <ul aria-label="Excluded competitors" className="space-y-1">
+                            {excluded.map(b => (
+                                <li key={b.id} className="flex items-center justify-between gap-2 text-xs text-gray-500">
+                                    <span className="truncate line-through" title={b.address}>{b.name}</span>
+                                    <button onClick={() => onInclude(b.id)} disabled={disabled} aria-label={`Stop excluding ${b.name}`} className="font-semibold text-indigo-600 hover:text-indigo-800 disabled:text-indigo-300">Include</button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    {excluded.length === 0 && <p className="text-xs text-gray-500">Exclude competitors from the results leaderboard.</p>}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default CompetitorSetPanel;
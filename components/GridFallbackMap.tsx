@@ -0,0 +1,159 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { RankingPoint, Business } from '../types';
+import { formatRankDelta, getRankDeltaColor } from '../services/gridDiff.ts';
+import { formatPointRank, getPointColor, UNKNOWN_RANK_COLOR } from '../services/scanUtils.ts';
+import { GridPoint, createViewportProjection, estimateGridSpacingKm } from '../services/gridGeometry.ts';
+
+interface GridFallbackMapProps {
+    results: RankingPoint[];
+    businessLocation: Business | null;
+    onSelectPoint: (point: RankingPoint | null) => void;
+    selectedPoint: RankingPoint | null;
+    hoveredCompetitorId: string | null;
+    rankDeltas?: Map<number, number | null> | null;
+    placeholderPoints?: GridPoint[];
+}
+
+const PADDING = 40;
+const MIN_CELL_RADIUS = 6;
+const MAX_CELL_RADIUS = 22;
+const SCALE_BAR_STEPS_KM = [0.1, 0.2, 0.5, 1, 2, 5, 10, 20, 50];
+
+// The largest round distance that fits in about a fifth of the viewport width.
+const pickScaleBarKm = (pixelsPerKm: number, width: number): number => {
+    const target = width / 5 / pixelsPerKm;
+    return [...SCALE_BAR_STEPS_KM].reverse().find(km => km <= target) ?? SCALE_BAR_STEPS_KM[0];
+};
+
+const formatDistance = (km: number) => (km < 1 ? `${Math.round(km * 1000)} m` : `${km} km`);
+
+const getPointTitle = (point: RankingPoint, delta: number | null | undefined): string => {
+    if (point.error) return `Rank unknown: ${point.error}`;
+    const topCompetitor = point.competitorRanks.find(c => c.rank === 1)?.business.name ?? "N/A";
+    const changeText = delta === undefined ? '' : delta === null ? ' No matching point in the compared scan.' : ` Change: ${formatRankDelta(delta)}.`;
+    return `Rank: ${formatPointRank(point)}.${changeText} Top Competitor: ${topCompetitor}`;
+};
+
+/**
+ * Draws the scan grid as plain SVG, without map tiles. Used when Google Maps can't load (no key,
+ * an unauthorized key, or no connection) so saved and running scans can still be inspected.
+ */
+const GridFallbackMap: React.FC<GridFallbackMapProps> = ({ results, businessLocation, onSelectPoint, selectedPoint, hoveredCompetitorId, rankDeltas = null, placeholderPoints = [] }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [size, setSize] = useState({ width: 0, height: 0 });
+
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        const observer = new ResizeObserver(([entry]) => {
+            setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+        });
+        observer.observe(container);
+        return () => observer.disconnect();
+    }, []);
+
+    const completed = new Set(results.map(point => point.id));
+    const pending = placeholderPoints.filter(point => !completed.has(point.id));
+    const business = businessLocation ? { lat: businessLocation.latitude, lng: businessLocation.longitude } : null;
+    const fitPoints = [...(placeholderPoints.length > 0 ? placeholderPoints : results), ...(business ? [business] : [])];
+
+    const { width, height } = size;
+    const isReady = width > 0 && height > 0 && fitPoints.length > 0;
+    const projection = isReady ? createViewportProjection(fitPoints, width, height, PADDING) : null;
+    const gridPoints = placeholderPoints.length > 0 ? placeholderPoints : results;
+    const radius = projection
+        ? Math.max(MIN_CELL_RADIUS, Math.min(MAX_CELL_RADIUS, (estimateGridSpacingKm(gridPoints) * projection.pixelsPerKm) / 2 - 2))
+        : MIN_CELL_RADIUS;
+    const scaleBarKm = projection ? pickScaleBarKm(projection.pixelsPerKm, width) : 0;
+
+    const handleKeyDown = (e: React.KeyboardEvent, point: RankingPoint, isSelected: boolean) => {
+        if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            onSelectPoint(isSelected ? null : point);
+        }
+    };
+
+    return (
+        <div ref={containerRef} className="w-full h-full bg-gray-100">
+            {projection && (
+                <svg width={width} height={height} role="img" aria-label="Grid of scan results">
+                    {pending.map(point => {
+                        const { x, y } = projection.toViewport(point);
+                        return (
+                            <circle key={`pending-${point.id}`} cx={x} cy={y} r={Math.min(radius, 8)} fill="#d1d5db" stroke="#9ca3af" strokeWidth={2}>
+                                <title>Not scanned yet</title>
+                            </circle>
+                        );
+                    })}
+                    {results.map(point => {
+                        const { x, y } = projection.toViewport(point);
+                        const isSelected = selectedPoint?.id === point.id;
+                        const delta = rankDeltas ? rankDeltas.get(point.id) ?? null : undefined;
+                        const isDimmed = hoveredCompetitorId !== null && !point.competitorRanks.some(cr => cr.business.id === hoveredCompetitorId);
+                        const label = point.error ? '?' : delta === undefined ? formatPointRank(point) : delta === null ? '?' : formatRankDelta(delta);
+                        const fill = point.error ? 'white' : delta === undefined ? getPointColor(point) : getRankDeltaColor(delta);
+                        const cellRadius = isSelected ? radius + 3 : radius;
+                        return (
+                            <g
+                                key={point.id}
+                                role="button"
+                                tabIndex={0}
+                                aria-pressed={isSelected}
+                                className="cursor-pointer focus:outline-none"
+                                opacity={isDimmed ? 0.3 : 1}
+                                onClick={() => onSelectPoint(isSelected ? null : point)}
+                                onKeyDown={(e) => handleKeyDown(e, point, isSelected)}
+                            >
+                                <title>{getPointTitle(point, delta)}</title>
+                                <circle
+                                    cx={x}
+                                    cy={y}
+                                    r={cellRadius}
+                                    fill={fill}
+                                    stroke={isSelected ? '#4F46E5' : point.error ? UNKNOWN_RANK_COLOR : 'rgba(0,0,0,0.1)'}
+                                    strokeWidth={isSelected ? 3 : 2}
+                                    strokeDasharray={point.error ? '4 3' : undefined}
+                                />
+                                {radius >= 9 && (
+                                    <text
+                                        x={x}
+                                        y={y}
+                                        dominantBaseline="middle"
+                                        textAnchor="middle"
+                                        fontFamily="Inter, sans-serif"
+                                        fontSize={Math.max(8, Math.min(16, cellRadius * (label.length > 2 ? 0.6 : 0.8)))}
+                                        fontWeight="bold"
+                                        fill={point.error ? UNKNOWN_RANK_COLOR : 'white'}
+                                        pointerEvents="none"
+                                    >
+                                        {label}
+                                    </text>
+                                )}
+                            </g>
+                        );
+                    })}
+                    {business && businessLocation && (() => {
+                        const { x, y } = projection.toViewport(business);
+                        const isDimmed = hoveredCompetitorId !== null && hoveredCompetitorId !== businessLocation.id;
+                        return (
+                            <g opacity={isDimmed ? 0.3 : 1} pointerEvents="none">
+                                <title>{businessLocation.name}</title>
+                                <circle cx={x} cy={y} r={14} fill="#4F46E5" fillOpacity={0.3} />
+                                <circle cx={x} cy={y} r={8} fill="#4F46E5" stroke="white" strokeWidth={2} />
+                            </g>
+                        );
+                    })()}
+                    <g transform={`translate(16, ${height - 16})`}>
+                        <rect x={-6} y={-22} width={scaleBarKm * projection.pixelsPerKm + 12} height={28} rx={4} fill="white" fillOpacity={0.8} />
+                        <line x1={0} x2={scaleBarKm * projection.pixelsPerKm} y1={0} y2={0} stroke="#374151" strokeWidth={2} />
+                        <line x1={0} x2={0} y1={-4} y2={0} stroke="#374151" strokeWidth={2} />
+                        <line x1={scaleBarKm * projection.pixelsPerKm} x2={scaleBarKm * projection.pixelsPerKm} y1={-4} y2={0} stroke="#374151" strokeWidth={2} />
+                        <text x={0} y={-8} fontSize={11} fill="#374151">{formatDistance(scaleBarKm)}</text>
+                    </g>
+                </svg>
+            )}
+        </div>
+    );
+};
+
+export default GridFallbackMap;
@@ -1,27 +1,95 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { Workspace } from '../types';
 import { LogoIcon } from './icons/LogoIcon';
 import { ChevronDownIcon } from './icons/ChevronDownIcon';
 import { BoltIcon } from './icons/BoltIcon';
+import { TrashIcon } from './icons/TrashIcon';
+
+interface HeaderProps {
+  workspace: Workspace;
+  onSelectProject: (projectId: string | null) => void;
+  onCreateProject: (name: string) => void;
+  onDeleteProject: (projectId: string) => void;
+}
+
+const Header: React.FC<HeaderProps> = ({ workspace, onSelectProject, onCreateProject, onDeleteProject }) => {
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [newProjectName, setNewProjectName] = useState('');
+  const activeProject = workspace.projects.find(p => p.id === workspace.activeProjectId);
+
+  const handleSelect = (projectId: string | null) => {
+    onSelectProject(projectId);
+    setIsMenuOpen(false);
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newProjectName.trim()) {
+      onCreateProject(newProjectName);
+      setNewProjectName('');
+      setIsMenuOpen(false);
+    }
+  };
 
-const Header: React.FC = () => {
   return (
     <header className="bg-white border-b border-gray-200 px-4 h-16 flex items-center justify-between z-30 shrink-0">
       <div className="flex items-center gap-4">
         <LogoIcon />
         <h1 className="text-lg font-bold text-gray-800">GRID MY BUSINESS</h1>
         <div className="h-6 w-px bg-gray-200"></div>
-        <button className="flex items-center gap-2 bg-gray-100 hover:bg-gray-200 rounded-md px-3 py-1.5 text-sm font-medium">
-          <span>Acme Workspace</span>
-          <ChevronDownIcon />
-        </button>
+        <div className="relative">
+          <button
+            aria-haspopup="true"
+            aria-expanded={isMenuOpen}
+            aria-controls="project-menu"
+            onClick={() => setIsMenuOpen(!isMenuOpen)}
+            className="flex items-center gap-2 bg-gray-100 hover:bg-gray-200 rounded-md px-3 py-1.5 text-sm font-medium"
+          >
+            <span>{activeProject ? activeProject.name : 'All Projects'}</span>
+            <ChevronDownIcon />
+          </button>
+          {isMenuOpen && (
+            <div id="project-menu" className="absolute left-0 mt-1 w-72 bg-white border border-gray-200 rounded-lg shadow-lg z-40 p-2 text-sm">
+              <ul className="max-h-64 overflow-y-auto">
+                <li>
+                  <button onClick={() => handleSelect(null)} className={`w-full text-left px-2 py-1.5 rounded-md hover:bg-gray-100 ${!activeProject ? 'font-semibold text-indigo-600' : ''}`}>
+                    All Projects
+                  </button>
+                </li>
+                {workspace.projects.map(project => (
+                  <li key={project.id} className="flex items-center gap-1">
+                    <button onClick={() => handleSelect(project.id)} className={`flex-1 text-left px-2 py-1.5 rounded-md hover:bg-gray-100 truncate ${project.id === activeProject?.id ? 'font-semibold text-indigo-600' : ''}`}>
+                      {project.name} <span className="text-xs text-gray-400">({project.businesses.length})</span>
+                    </button>
+                    <button aria-label={`Delete project ${project.name}`} onClick={() => onDeleteProject(project.id)} className="p-1 text-gray-400 hover:text-red-500">
+                      <TrashIcon />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              <form onSubmit={handleCreate} className="mt-2 pt-2 border-t border-gray-200 flex gap-1">
+                <label htmlFor="new-project-name" className="sr-only">New project name</label>
+                <input
+                  id="new-project-name"
+                  type="text"
+                  value={newProjectName}
+                  onChange={(e) => setNewProjectName(e.target.value)}
+                  placeholder="New client project"
+                  className="flex-1 min-w-0 border-gray-300 rounded-md shadow-sm text-sm px-2 py-1"
+                />
+                <button type="submit" disabled={!newProjectName.trim()} className="bg-indigo-600 text-white rounded-md px-2 py-1 text-xs font-semibold disabled:bg-indigo-300">Create</button>
+              </form>
+            </div>
+          )}
+        </div>
       </div>
       <div className="flex items-center gap-4">
         <button className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg px-4 py-2 text-sm font-semibold shadow-sm transition-colors">
           <BoltIcon />
           <span>Quick Scan</span>
         </button>
-        <div 
-          role="button" 
+        <div
+          role="button"
           tabIndex={0}
           aria-label="User Profile"
           className="w-8 h-8 bg-green-500 rounded-full flex items-center justify-center text-white font-bold text-sm cursor-pointer focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
@@ -33,4 +101,4 @@ const Header: React.FC = () => {
   );
 };
 
-export default Header;
\ No newline at end of file
+export default Header;
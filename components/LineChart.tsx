@@ -0,0 +1,85 @@
+import React from 'react';
+
+export interface LineChartSeries {
+    id: string;
+    label: string;
+    color: string;
+    points: { date: Date; value: number }[];
+}
+
+interface LineChartProps {
+    title: string;
+    series: LineChartSeries[];
+    yMin: number;
+    yMax: number;
+    invertY?: boolean; // For ranks, where lower is better and should sit at the top
+    formatValue: (value: number) => string;
+}
+
+const WIDTH = 320;
+const HEIGHT = 160;
+const PADDING = { top: 10, right: 10, bottom: 22, left: 34 };
+
+const formatDate = (date: Date) => date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+const LineChart: React.FC<LineChartProps> = ({ title, series, yMin, yMax, invertY = false, formatValue }) => {
+    const allDates = series.flatMap(s => s.points.map(p => p.date.getTime()));
+    if (allDates.length === 0) {
+        return <p className="text-sm text-gray-500">No data for {title.toLowerCase()}.</p>;
+    }
+    const minDate = Math.min(...allDates);
+    const maxDate = Math.max(...allDates);
+    const plotWidth = WIDTH - PADDING.left - PADDING.right;
+    const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+
+    // A single scan date is drawn in the middle of the chart.
+    const x = (time: number) => PADDING.left + (maxDate === minDate ? plotWidth / 2 : ((time - minDate) / (maxDate - minDate)) * plotWidth);
+    const y = (value: number) => {
+        const ratio = (Math.min(yMax, Math.max(yMin, value)) - yMin) / (yMax - yMin || 1);
+        return PADDING.top + (invertY ? ratio : 1 - ratio) * plotHeight;
+    };
+    const gridValues = [yMin, (yMin + yMax) / 2, yMax];
+
+    return (
+        <figure>
+            <figcaption className="text-xs font-semibold text-gray-500 uppercase mb-1">{title}</figcaption>
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={title}>
+                {gridValues.map(value => (
+                    <g key={value}>
+                        <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(value)} y2={y(value)} stroke="#e5e7eb" strokeWidth={1} />
+                        <text x={PADDING.left - 4} y={y(value)} textAnchor="end" dominantBaseline="middle" fontSize={9} fill="#6b7280">{formatValue(value)}</text>
+                    </g>
+                ))}
+                <text x={PADDING.left} y={HEIGHT - 6} fontSize={9} fill="#6b7280">{formatDate(new Date(minDate))}</text>
+                {maxDate !== minDate && <text x={WIDTH - PADDING.right} y={HEIGHT - 6} textAnchor="end" fontSize={9} fill="#6b7280">{formatDate(new Date(maxDate))}</text>}
+                {series.map(s => (
+                    <g key={s.id}>
+                        {s.points.length > 1 && (
+                            <polyline
+                                fill="none"
+                                stroke={s.color}
+                                strokeWidth={2}
+                                points={s.points.map(p => `${x(p.date.getTime())},${y(p.value)}`).join(' ')}
+                            />
+                        )}
+                        {s.points.map((p, i) => (
+                            <circle key={i} cx={x(p.date.getTime())} cy={y(p.value)} r={3} fill={s.color}>
+                                <title>{`${s.label}: ${formatValue(p.value)} on ${p.date.toLocaleString()}`}</title>
+                            </circle>
+                        ))}
+                    </g>
+                ))}
+            </svg>
+            <ul className="flex flex-wrap gap-x-3 gap-y-1 mt-1">
+                {series.map(s => (
+                    <li key={s.id} className="flex items-center gap-1 text-xs text-gray-600">
+                        <span className="inline-block w-2.5 h-2.5 rounded-full" style={{ backgroundColor: s.color }}></span>
+                        <span className="truncate max-w-[140px]" title={s.label}>{s.label}</span>
+                    </li>
+                ))}
+            </ul>
+        </figure>
+    );
+};
+
+export default LineChart;
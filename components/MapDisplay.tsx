@@ -1,5 +1,9 @@
 import React, { useEffect, useRef, useState, useCallback } from 'react';
 import { RankingPoint, Business } from '../types';
+import { formatRankDelta, getRankDeltaColor } from '../services/gridDiff.ts';
+import { getRankColor, UNKNOWN_RANK_COLOR } from '../services/scanUtils.ts';
+import { GridPoint } from '../services/gridGeometry.ts';
+import GridFallbackMap from './GridFallbackMap';
 
 declare global {
   namespace google.maps {
@@ -24,7 +28,7 @@ declare global {
         interface AutocompletionRequest { input: string; types?: string[]; location?: LatLng; radius?: number; }
         interface AutocompletePrediction { place_id: string; structured_formatting: { main_text: string; secondary_text: string }; }
         interface PlaceDetailsRequest { placeId: string; fields: string[]; }
-        interface PlaceResult { name?: string; formatted_address?: string; geometry?: { location?: LatLng }; place_id?: string; }
+        interface PlaceResult { name?: string; formatted_address?: string; geometry?: { location?: LatLng }; place_id?: string; rating?: number; user_ratings_total?: number; types?: string[]; }
         const PlacesServiceStatus: { OK: string };
       }
       namespace visualization {
@@ -57,6 +61,8 @@ interface MapDisplayProps {
   selectedPoint: RankingPoint | null;
   hoveredCompetitorId: string | null;
   showHeatmap: boolean;
+  rankDeltas?: Map<number, number | null> | null; // Point id -> rank change; switches markers to diff mode
+  placeholderPoints?: GridPoint[]; // The grid of a running scan; points without a result yet are drawn grey
 }
 
 const scriptId = 'google-maps-script';
@@ -111,19 +117,13 @@ const mapStyles: google.maps.MapTypeStyle[] = [
 
 const createMarkerIcon = (rank: number, isSelected: boolean, isDimmed: boolean): google.maps.MarkerOptions['icon'] => {
   const rankText = rank > 20 ? '20+' : rank.toString();
-  const getColor = () => {
-    if (rank <= 3) return '#22c55e';
-    if (rank <= 6) return '#facc15';
-    if (rank <= 10) return '#f97316';
-    return '#ef4444';
-  };
   const size = isSelected ? 44 : 36;
   const fontSize = rank > 20 ? 14 : (isSelected ? 18 : 16);
   const strokeWidth = isSelected ? 3 : 2;
 
   const svg = `
     <svg width="${size}" height="${size}" viewBox="0 0 ${size} ${size}" fill="none" xmlns="http://www.w3.org/2000/svg">
-      <circle cx="${size/2}" cy="${size/2}" r="${size/2 - strokeWidth/2}" fill="${getColor()}" stroke="${isSelected ? '#4F46E5' : 'rgba(0,0,0,0.1)'}" stroke-width="${strokeWidth}"/>
+      <circle cx="${size/2}" cy="${size/2}" r="${size/2 - strokeWidth/2}" fill="${getRankColor(rank)}" stroke="${isSelected ? '#4F46E5' : 'rgba(0,0,0,0.1)'}" stroke-width="${strokeWidth}"/>
       <text x="50%" y="50%" dominant-baseline="middle" text-anchor="middle" font-family="Inter, sans-serif" font-size="${fontSize}" font-weight="bold" fill="white">${rankText}</text>
     </svg>
   `;
@@ -135,19 +135,164 @@ const createMarkerIcon = (rank: number, isSelected: boolean, isDimmed: boolean):
   };
 };
 
-const MapDisplay: React.FC<MapDisplayProps> = ({ onMapLoad, results, businessLocation, onSelectPoint, selectedPoint, hoveredCompetitorId, showHeatmap }) => {
+// Diff-mode marker: shows the rank change instead of the rank. Null means the point had no match in the other scan.
+const createDeltaMarkerIcon = (delta: number | null, isSelected: boolean): google.maps.MarkerOptions['icon'] => {
+  const text = delta === null ? '?' : formatRankDelta(delta);
+  const size = isSelected ? 44 : 36;
+  const fontSize = text.length > 2 ? 13 : (isSelected ? 17 : 15);
+  const strokeWidth = isSelected ? 3 : 2;
+
+  const svg = `
+    <svg width="${size}" height="${size}" viewBox="0 0 ${size} ${size}" fill="none" xmlns="http://www.w3.org/2000/svg">
+      <circle cx="${size/2}" cy="${size/2}" r="${size/2 - strokeWidth/2}" fill="${getRankDeltaColor(delta)}" stroke="${isSelected ? '#4F46E5' : 'rgba(0,0,0,0.1)'}" stroke-width="${strokeWidth}"/>
+      <text x="50%" y="50%" dominant-baseline="middle" text-anchor="middle" font-family="Inter, sans-serif" font-size="${fontSize}" font-weight="bold" fill="white">${text}</text>
+    </svg>
+  `;
+
+  return {
+    url: 'data:image/svg+xml;charset=UTF-8,' + encodeURIComponent(svg),
+    scaledSize: new window.google.maps.Size(size, size),
+    anchor: new window.google.maps.Point(size/2, size/2),
+  };
+};
+
+// A point whose rank couldn't be fetched: a hollow dashed marker, so it can't be mistaken for a rank.
+const createFailedMarkerIcon = (isSelected: boolean): google.maps.MarkerOptions['icon'] => {
+  const size = isSelected ? 44 : 36;
+  const strokeWidth = isSelected ? 3 : 2;
+
+  const svg = `
+    <svg width="${size}" height="${size}" viewBox="0 0 ${size} ${size}" fill="none" xmlns="http://www.w3.org/2000/svg">
+      <circle cx="${size/2}" cy="${size/2}" r="${size/2 - strokeWidth/2}" fill="white" stroke="${isSelected ? '#4F46E5' : UNKNOWN_RANK_COLOR}" stroke-width="${strokeWidth}" stroke-dasharray="4 3"/>
+      <text x="50%" y="50%" dominant-baseline="middle" text-anchor="middle" font-family="Inter, sans-serif" font-size="16" font-weight="bold" fill="${UNKNOWN_RANK_COLOR}">?</text>
+    </svg>
+  `;
+
+  return {
+    url: 'data:image/svg+xml;charset=UTF-8,' + encodeURIComponent(svg),
+    scaledSize: new window.google.maps.Size(size, size),
+    anchor: new window.google.maps.Point(size/2, size/2),
+  };
+};
+
+// Small grey dot for a grid point that hasn't been scanned yet.
+const createPlaceholderIcon = (): google.maps.MarkerOptions['icon'] => {
+  const size = 16;
+  const svg = `
+    <svg width="${size}" height="${size}" viewBox="0 0 ${size} ${size}" fill="none" xmlns="http://www.w3.org/2000/svg">
+      <circle cx="${size/2}" cy="${size/2}" r="${size/2 - 1}" fill="#d1d5db" stroke="#9ca3af" stroke-width="2"/>
+    </svg>
+  `;
+
+  return {
+    url: 'data:image/svg+xml;charset=UTF-8,' + encodeURIComponent(svg),
+    scaledSize: new window.google.maps.Size(size, size),
+    anchor: new window.google.maps.Point(size/2, size/2),
+  };
+};
+
+const NO_PLACEHOLDERS: GridPoint[] = [];
+
+interface MarkerStyle {
+  selectedPointId: number | null;
+  hoveredCompetitorId: string | null;
+  rankDeltas: Map<number, number | null> | null;
+}
+
+// A result marker keeps the point it shows, so its click listener is added once and always selects the latest result.
+interface ResultMarker {
+  marker: google.maps.Marker;
+  point: RankingPoint;
+  listener: google.maps.MapsEventListener;
+}
+
+const styleResultMarker = (marker: google.maps.Marker, point: RankingPoint, { selectedPointId, hoveredCompetitorId, rankDeltas }: MarkerStyle) => {
+  const isSelected = selectedPointId === point.id;
+  const topCompetitor = point.competitorRanks.find(c => c.rank === 1)?.business.name ?? "N/A";
+  const delta = rankDeltas ? rankDeltas.get(point.id) ?? null : undefined;
+  const changeText = delta === undefined ? '' : delta === null ? ' No matching point in the compared scan.' : ` Change: ${formatRankDelta(delta)}.`;
+  const markerTitle = point.error
+      ? `Rank unknown: ${point.error}`
+      : `Rank: ${point.rank > 20 ? '20+' : point.rank}.${changeText} Top Competitor: ${topCompetitor}`;
+
+  const isHoverMatch = point.competitorRanks.some(cr => cr.business.id === hoveredCompetitorId);
+  const isDimmed = hoveredCompetitorId !== null && !isHoverMatch;
+
+  marker.setOptions({
+      icon: point.error ? createFailedMarkerIcon(isSelected)
+          : delta === undefined ? createMarkerIcon(point.rank, isSelected, isDimmed) : createDeltaMarkerIcon(delta, isSelected),
+      zIndex: isSelected ? 100 : point.error ? 21 : point.rank,
+      opacity: isDimmed ? 0.3 : 1,
+      title: markerTitle
+  });
+};
+
+interface MapsKeyFormProps {
+  error: string | null;
+  compact?: boolean; // Drawn over the fallback grid rather than filling the panel
+  onSubmit: (key: string) => void;
+}
+
+const MapsKeyForm: React.FC<MapsKeyFormProps> = ({ error, compact = false, onSubmit }) => {
+  const [keyInput, setKeyInput] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+      e.preventDefault();
+      if (keyInput.trim()) {
+          onSubmit(keyInput.trim());
+          setKeyInput('');
+      }
+  };
+
+  const form = (
+      <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row items-center gap-2">
+          <input type="text" value={keyInput} onChange={(e) => setKeyInput(e.target.value)} placeholder="Enter your API key" className="w-full sm:w-auto flex-grow px-3 py-2 border border-gray-300 rounded-md shadow-sm"/>
+          <button type="submit" className="w-full sm:w-auto bg-indigo-600 text-white px-4 py-2 rounded-md font-semibold hover:bg-indigo-700">Save & Load</button>
+      </form>
+  );
+
+  if (compact) {
+      return (
+          <div className="absolute top-3 left-3 right-3 sm:right-auto sm:max-w-lg bg-white/95 rounded-md shadow p-3 z-10 text-sm">
+              <p className="font-semibold text-gray-800">Google Maps is unavailable, showing the grid only.</p>
+              {error && <p role="alert" className="text-red-500 mt-1">{error}</p>}
+              <div className="mt-2">{form}</div>
+          </div>
+      );
+  }
+
+  return (
+      <div className="w-full h-full flex flex-col items-center justify-center bg-gray-100 p-8 text-center">
+          <h2 className="text-xl font-semibold text-gray-800 mb-2">Google Maps API Key Required</h2>
+          <p className="text-gray-600 mb-4 max-w-md">To display the map, please provide a valid Google Maps JavaScript API key.</p>
+          {error && <p role="alert" className="text-red-500 mb-4 font-medium max-w-lg">{error}</p>}
+          {form}
+      </div>
+  );
+};
+
+const MapDisplay: React.FC<MapDisplayProps> = ({ onMapLoad, results, businessLocation, onSelectPoint, selectedPoint, hoveredCompetitorId, showHeatmap, rankDeltas = null, placeholderPoints = NO_PLACEHOLDERS }) => {
   const mapRef = useRef<HTMLDivElement>(null);
   const [map, setMap] = useState<google.maps.Map | null>(null);
   const [mapsApiKey, setMapsApiKey] = useState<string | null>(() => localStorage.getItem('googleMapsApiKey'));
   const [apiKeyError, setApiKeyError] = useState<string | null>(null);
   const [isApiLoaded, setIsApiLoaded] = useState(false);
-  const [keyInput, setKeyInput] = useState('');
+  const [showGridView, setShowGridView] = useState(false);
   
-  const markersRef = useRef<google.maps.Marker[]>([]);
+  // Both keyed by point id, so a streamed point only touches its own markers.
+  const markersRef = useRef(new Map<number, ResultMarker>());
+  const placeholderMarkersRef = useRef(new Map<number, google.maps.Marker>());
   const businessMarkerRef = useRef<google.maps.Marker | null>(null);
-  const listenerRefs = useRef<google.maps.MapsEventListener[]>([]);
   const heatmapRef = useRef<google.maps.visualization.HeatmapLayer | null>(null);
 
+  // Read by the marker effects and click listeners, which don't re-run on every selection or hover change.
+  const markerStyleRef = useRef<MarkerStyle>(null);
+  markerStyleRef.current = { selectedPointId: selectedPoint?.id ?? null, hoveredCompetitorId, rankDeltas };
+  const showHeatmapRef = useRef(showHeatmap);
+  showHeatmapRef.current = showHeatmap;
+  const onSelectPointRef = useRef(onSelectPoint);
+  onSelectPointRef.current = onSelectPoint;
+
   useEffect(() => {
     const handleAuthFailure = () => {
         setApiKeyError("Google Maps API Error: Your key is not authorized for this website. Please check your API key's 'Application restrictions' in the Google Cloud Console and ensure this site is on the allowed list.");
@@ -181,14 +326,17 @@ const MapDisplay: React.FC<MapDisplayProps> = ({ onMapLoad, results, businessLoc
     }
   }, [isApiLoaded, map, onMapLoad]);
 
+  // While scanning, fit the whole grid once rather than re-fitting as each point arrives.
+  const fitPoints = placeholderPoints.length > 0 ? placeholderPoints : results;
+
   useEffect(() => {
-    if (map && (results.length > 0 || businessLocation)) {
+    if (map && (fitPoints.length > 0 || businessLocation)) {
         const bounds = new window.google.maps.LatLngBounds();
         if (businessLocation) {
             bounds.extend({ lat: businessLocation.latitude, lng: businessLocation.longitude });
         }
-        if (results.length > 0) {
-            results.forEach(point => bounds.extend({ lat: point.lat, lng: point.lng }));
+        if (fitPoints.length > 0) {
+            fitPoints.forEach(point => bounds.extend({ lat: point.lat, lng: point.lng }));
         } else {
             // If only business location, set a reasonable zoom
             map.setCenter({ lat: businessLocation!.latitude, lng: businessLocation!.longitude });
@@ -197,7 +345,7 @@ const MapDisplay: React.FC<MapDisplayProps> = ({ onMapLoad, results, businessLoc
         }
         map.fitBounds(bounds);
     }
-  }, [map, results, businessLocation]);
+  }, [map, fitPoints, businessLocation]);
 
   useEffect(() => {
     if (!map || !window.google?.maps?.visualization) return;
@@ -228,10 +376,6 @@ const MapDisplay: React.FC<MapDisplayProps> = ({ onMapLoad, results, businessLoc
 
   useEffect(() => {
     if (!map) return;
-  
-    listenerRefs.current.forEach(listener => listener.remove());
-    listenerRefs.current = [];
-  
     if (businessLocation) {
         const businessLatLng = { lat: businessLocation.latitude, lng: businessLocation.longitude };
         const isDimmed = hoveredCompetitorId !== null && hoveredCompetitorId !== businessLocation.id;
@@ -251,62 +395,107 @@ const MapDisplay: React.FC<MapDisplayProps> = ({ onMapLoad, results, businessLoc
     } else {
         businessMarkerRef.current?.setMap(null);
     }
-  
-    results.forEach((point, i) => {
-        const isSelected = selectedPoint?.id === point.id;
-        const topCompetitor = point.competitorRanks.find(c => c.rank === 1)?.business.name ?? "N/A";
-        const markerTitle = `Rank: ${point.rank > 20 ? '20+' : point.rank}. Top Competitor: ${topCompetitor}`;
+  }, [map, businessLocation, hoveredCompetitorId]);
 
-        const isHoverMatch = point.competitorRanks.some(cr => cr.business.id === hoveredCompetitorId);
-        const isDimmed = hoveredCompetitorId !== null && !isHoverMatch;
+  // Only points that are new or changed get a marker update; during a scan that is the one that just arrived.
+  useEffect(() => {
+    if (!map) return;
+    const markers = markersRef.current;
 
-        let marker = markersRef.current[i];
-        if (marker) {
-            marker.setPosition({ lat: point.lat, lng: point.lng });
-            marker.setMap(showHeatmap ? null : map);
+    results.forEach(point => {
+        let entry = markers.get(point.id);
+        if (entry?.point === point) return;
+        if (entry) {
+            entry.point = point;
+            entry.marker.setPosition({ lat: point.lat, lng: point.lng });
         } else {
-            marker = new window.google.maps.Marker({ position: { lat: point.lat, lng: point.lng }, map: showHeatmap ? null : map });
-            markersRef.current[i] = marker;
+            const marker = new window.google.maps.Marker({ position: { lat: point.lat, lng: point.lng } });
+            const created: ResultMarker = { marker, point, listener: null };
+            created.listener = marker.addListener('click', () => {
+                onSelectPointRef.current(markerStyleRef.current.selectedPointId === created.point.id ? null : created.point);
+            });
+            markers.set(point.id, created);
+            entry = created;
         }
-        marker.setOptions({
-            icon: createMarkerIcon(point.rank, isSelected, isDimmed),
-            zIndex: isSelected ? 100 : point.rank,
-            opacity: isDimmed ? 0.3 : 1,
-            title: markerTitle
-        });
+        styleResultMarker(entry.marker, point, markerStyleRef.current);
+        entry.marker.setMap(showHeatmapRef.current ? null : map);
+        placeholderMarkersRef.current.get(point.id)?.setMap(null);
+    });
 
-        const clickListener = marker.addListener('click', () => {
-            onSelectPoint(isSelected ? null : point);
+    // Results only shrink when a new scan or keyword starts, or another scan is shown.
+    if (markers.size > results.length) {
+        const current = new Set(results.map(point => point.id));
+        markers.forEach((entry, id) => {
+            if (current.has(id)) return;
+            entry.listener.remove();
+            entry.marker.setMap(null);
+            markers.delete(id);
+            placeholderMarkersRef.current.get(id)?.setMap(map);
         });
-        listenerRefs.current.push(clickListener);
-    });
-  
-    for (let i = results.length; i < markersRef.current.length; i++) {
-        markersRef.current[i]?.setMap(null);
     }
-  
-  }, [map, results, businessLocation, onSelectPoint, selectedPoint, hoveredCompetitorId, showHeatmap]);
+  }, [map, results]);
 
-  const handleKeySubmit = (e: React.FormEvent) => {
-      e.preventDefault();
-      if (keyInput.trim()) {
-          localStorage.setItem('googleMapsApiKey', keyInput.trim());
-          setMapsApiKey(keyInput.trim());
-          setIsApiLoaded(false);
-          setKeyInput('');
-      }
+  const selectedPointId = selectedPoint?.id ?? null;
+
+  useEffect(() => {
+    if (!map) return;
+    markersRef.current.forEach(({ marker, point }) => {
+        styleResultMarker(marker, point, markerStyleRef.current);
+        marker.setMap(showHeatmap ? null : map);
+    });
+  }, [map, selectedPointId, hoveredCompetitorId, rankDeltas, showHeatmap]);
+
+  // Runs after the result markers are synced, so points that already have a result stay hidden.
+  useEffect(() => {
+    if (!map) return;
+    const placeholders = placeholderMarkersRef.current;
+    const grid = new Set(placeholderPoints.map(point => point.id));
+    placeholders.forEach((marker, id) => {
+        if (grid.has(id)) return;
+        marker.setMap(null);
+        placeholders.delete(id);
+    });
+
+    placeholderPoints.forEach(point => {
+        let marker = placeholders.get(point.id);
+        if (marker) {
+            marker.setPosition({ lat: point.lat, lng: point.lng });
+        } else {
+            marker = new window.google.maps.Marker({ position: { lat: point.lat, lng: point.lng }, icon: createPlaceholderIcon(), zIndex: 0, title: 'Not scanned yet' });
+            placeholders.set(point.id, marker);
+        }
+        marker.setMap(markersRef.current.has(point.id) ? null : map);
+    });
+  }, [map, placeholderPoints]);
+
+  const handleKeySubmit = (key: string) => {
+      localStorage.setItem('googleMapsApiKey', key);
+      setMapsApiKey(key);
+      setIsApiLoaded(false);
   };
 
-  if (!mapsApiKey || apiKeyError) {
+  const hasGrid = results.length > 0 || placeholderPoints.length > 0;
+  const isMapUnavailable = !mapsApiKey || !!apiKeyError;
+
+  const fallbackMap = (
+    <GridFallbackMap
+      results={results}
+      businessLocation={businessLocation}
+      onSelectPoint={onSelectPoint}
+      selectedPoint={selectedPoint}
+      hoveredCompetitorId={hoveredCompetitorId}
+      rankDeltas={rankDeltas}
+      placeholderPoints={placeholderPoints}
+    />
+  );
+
+  if (isMapUnavailable) {
+      if (!hasGrid) return <MapsKeyForm error={apiKeyError} onSubmit={handleKeySubmit} />;
+      // Without Google Maps, results are still shown on the plain grid.
       return (
-          <div className="w-full h-full flex flex-col items-center justify-center bg-gray-100 p-8 text-center">
-              <h2 className="text-xl font-semibold text-gray-800 mb-2">Google Maps API Key Required</h2>
-              <p className="text-gray-600 mb-4 max-w-md">To display the map, please provide a valid Google Maps JavaScript API key.</p>
-              {apiKeyError && <p role="alert" className="text-red-500 mb-4 font-medium max-w-lg">{apiKeyError}</p>}
-              <form onSubmit={handleKeySubmit} className="flex flex-col sm:flex-row items-center gap-2">
-                  <input type="text" value={keyInput} onChange={(e) => setKeyInput(e.target.value)} placeholder="Enter your API key" className="w-full sm:w-auto flex-grow px-3 py-2 border border-gray-300 rounded-md shadow-sm"/>
-                  <button type="submit" className="w-full sm:w-auto bg-indigo-600 text-white px-4 py-2 rounded-md font-semibold hover:bg-indigo-700">Save & Load</button>
-              </form>
+          <div role="application" aria-label="Grid of scan results" className="w-full h-full relative">
+              {fallbackMap}
+              <MapsKeyForm error={apiKeyError} onSubmit={handleKeySubmit} compact />
           </div>
       );
   }
@@ -314,7 +503,18 @@ const MapDisplay: React.FC<MapDisplayProps> = ({ onMapLoad, results, businessLoc
   return (
     <div role="application" aria-label="Interactive map of scan results" className="w-full h-full relative bg-gray-300">
       <div ref={mapRef} className="w-full h-full" />
-       {!isApiLoaded && (<div className="absolute inset-0 bg-gray-100 flex items-center justify-center z-10"><p>Loading map...</p></div>)}
+       {showGridView && hasGrid && <div className="absolute inset-0 z-10">{fallbackMap}</div>}
+       {isApiLoaded && hasGrid && (
+         <button
+           type="button"
+           onClick={() => setShowGridView(prev => !prev)}
+           aria-pressed={showGridView}
+           className="absolute top-3 right-3 z-20 bg-white text-gray-700 text-sm font-semibold px-3 py-1.5 rounded-md shadow hover:bg-gray-50"
+         >
+           {showGridView ? 'Map view' : 'Grid view'}
+         </button>
+       )}
+       {!isApiLoaded && (<div className="absolute inset-0 bg-gray-100 flex items-center justify-center z-10">{hasGrid ? fallbackMap : <p>Loading map...</p>}</div>)}
        {isApiLoaded && !businessLocation && (<div className="absolute inset-0 bg-gray-100 flex items-center justify-center z-10"><p>Select a business to begin a scan.</p></div>)}
     </div>
   );
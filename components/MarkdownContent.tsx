@@ -0,0 +1,89 @@
+import React, { useMemo } from 'react';
+import { GroundingSource } from '../types';
+import { MarkdownBlock, MarkdownInline, parseMarkdown } from '../services/markdown.ts';
+import SourceLink from './SourceLink';
+
+interface MarkdownContentProps {
+    content: string;
+    sources?: GroundingSource[]; // Targets of the answer's numbered citations
+}
+
+const HEADING_CLASSES = ['text-base font-bold', 'text-base font-semibold', 'text-sm font-semibold', 'text-sm font-semibold', 'text-sm font-medium', 'text-sm font-medium'];
+
+// Every node is rendered as a React element, so markup in the content is shown as text, never parsed as HTML.
+const renderInline = (nodes: MarkdownInline[], sources: GroundingSource[]): React.ReactNode[] =>
+    nodes.map((node, i) => {
+        switch (node.type) {
+            case 'text': return <React.Fragment key={i}>{node.text}</React.Fragment>;
+            case 'strong': return <strong key={i} className="font-semibold text-gray-900">{renderInline(node.children, sources)}</strong>;
+            case 'em': return <em key={i}>{renderInline(node.children, sources)}</em>;
+            case 'code': return <code key={i} className="px-1 py-0.5 rounded bg-gray-100 text-xs font-mono">{node.text}</code>;
+            case 'link': return <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" className="text-indigo-600 hover:underline">{renderInline(node.children, sources)}</a>;
+            case 'citation': {
+                const source = sources[node.sourceIndex];
+                const label = `[${node.sourceIndex + 1}]`;
+                return (
+                    <sup key={i} className="ml-0.5">
+                        {source
+                            ? <SourceLink source={source} title={source.title || source.uri}>{label}</SourceLink>
+                            : <span className="text-gray-400">{label}</span>}
+                    </sup>
+                );
+            }
+        }
+    });
+
+const renderBlocks = (blocks: MarkdownBlock[], sources: GroundingSource[], isTight = false): React.ReactNode[] =>
+    blocks.map((block, i) => {
+        switch (block.type) {
+            case 'heading': {
+                const Tag = `h${Math.min(6, block.level + 2)}` as 'h3' | 'h4' | 'h5' | 'h6'; // Nested under the accordion's own heading
+                return <Tag key={i} className={`${HEADING_CLASSES[block.level - 1]} text-gray-900 mt-4 first:mt-0 mb-1`}>{renderInline(block.children, sources)}</Tag>;
+            }
+            case 'paragraph':
+                return <p key={i} className={isTight ? '' : 'mb-2 last:mb-0'}>{renderInline(block.children, sources)}</p>;
+            case 'list': {
+                const listClass = `${block.ordered ? 'list-decimal' : 'list-disc'} pl-5 space-y-1 ${isTight ? 'mt-1' : 'mb-2 last:mb-0'}`;
+                const items = block.items.map((item, itemIndex) => <li key={itemIndex}>{renderBlocks(item, sources, true)}</li>);
+                return block.ordered
+                    ? <ol key={i} start={block.start} className={listClass}>{items}</ol>
+                    : <ul key={i} className={listClass}>{items}</ul>;
+            }
+            case 'table':
+                return (
+                    <div key={i} className="overflow-x-auto mb-2 last:mb-0">
+                        <table className="min-w-full text-xs border border-gray-200">
+                            <thead className="bg-gray-50">
+                                <tr>
+                                    {block.header.map((cell, column) => (
+                                        <th key={column} scope="col" className="px-2 py-1 border-b border-gray-200 font-semibold text-gray-700" style={{ textAlign: block.align[column] ?? 'left' }}>{renderInline(cell, sources)}</th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {block.rows.map((row, rowIndex) => (
+                                    <tr key={rowIndex} className="border-b border-gray-100 last:border-0">
+                                        {row.map((cell, column) => (
+                                            <td key={column} className="px-2 py-1 align-top" style={{ textAlign: block.align[column] ?? 'left' }}>{renderInline(cell, sources)}</td>
+                                        ))}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                );
+            case 'blockquote':
+                return <blockquote key={i} className="border-l-4 border-gray-200 pl-3 text-gray-600 mb-2 last:mb-0">{renderBlocks(block.children, sources)}</blockquote>;
+            case 'code':
+                return <pre key={i} className="bg-gray-100 rounded p-2 text-xs font-mono overflow-x-auto mb-2 last:mb-0">{block.text}</pre>;
+            case 'rule':
+                return <hr key={i} className="my-3 border-gray-200" />;
+        }
+    });
+
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ content, sources = [] }) => {
+    const blocks = useMemo(() => parseMarkdown(content), [content]);
+    return <div className="break-words">{renderBlocks(blocks, sources)}</div>;
+};
+
+export default MarkdownContent;
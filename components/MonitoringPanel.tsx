@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { MonitoredJob } from '../types';
+import { CADENCE_LABELS } from '../services/monitoringService.ts';
+import { formatGridSpec } from '../services/gridGeometry.ts';
+import { getScanKeywords } from '../services/scanUtils.ts';
+import { ClipboardIcon } from './icons/ClipboardIcon';
+import { ChevronUpIcon } from './icons/ChevronUpIcon';
+import { ChevronDownIcon } from './icons/ChevronDownIcon';
+import { TrashIcon } from './icons/TrashIcon';
+
+interface MonitoringPanelProps {
+    jobs: MonitoredJob[];
+    onTogglePaused: (id: string) => void;
+    onDelete: (id: string) => void;
+    disabled: boolean;
+}
+
+const LastRunStatus: React.FC<{ job: MonitoredJob }> = ({ job }) => {
+    const lastRun = job.runs[job.runs.length - 1];
+    if (!lastRun) return <span className="text-gray-400">Not run yet</span>;
+    if (lastRun.status === 'error') {
+        return <span className="text-red-500" title={lastRun.error}>Failed {new Date(lastRun.runAt).toLocaleString()}</span>;
+    }
+    return (
+        <span className="text-green-600">
+            OK {new Date(lastRun.runAt).toLocaleString()}
+            {lastRun.averageRank !== undefined && <> &middot; avg {lastRun.averageRank.toFixed(1)}</>}
+        </span>
+    );
+};
+
+const MonitoringPanel: React.FC<MonitoringPanelProps> = ({ jobs, onTogglePaused, onDelete, disabled }) => {
+    const [isOpen, setIsOpen] = useState(false);
+
+    if (jobs.length === 0) return null;
+
+    return (
+        <div className="mt-6">
+            <button aria-expanded={isOpen} aria-controls="monitoring-panel" onClick={() => setIsOpen(!isOpen)} className="w-full flex justify-between items-center text-left text-base font-semibold">
+                <span className="flex items-center gap-2"><ClipboardIcon /> Monitoring ({jobs.length})</span>
+                {isOpen ? <ChevronUpIcon /> : <ChevronDownIcon />}
+            </button>
+            {isOpen && (
+                <div id="monitoring-panel" className="mt-2 space-y-2">
+                    {jobs.map(job => (
+                        <div key={job.id} className={`border rounded-lg p-2 text-sm ${job.status === 'paused' ? 'bg-gray-50' : ''}`}>
+                            <div className="flex justify-between items-start gap-2">
+                                <p className="font-semibold truncate">{job.settings.location?.name}</p>
+                                <span className={`text-xs font-medium px-1.5 py-0.5 rounded-full shrink-0 ${job.status === 'active' ? 'bg-green-100 text-green-700' : 'bg-gray-200 text-gray-600'}`}>
+                                    {job.status === 'active' ? CADENCE_LABELS[job.cadence] : 'Paused'}
+                                </span>
+                            </div>
+                            <p className="text-xs text-gray-500 truncate">{getScanKeywords(job.settings).map(k => `"${k}"`).join(', ')} &middot; {formatGridSpec(job.settings.gridSize)}</p>
+                            <dl className="mt-1 text-xs grid grid-cols-[auto_1fr] gap-x-2">
+                                <dt className="text-gray-500">Next run</dt>
+                                <dd>{job.status === 'active' ? new Date(job.nextRunAt).toLocaleString() : '—'}</dd>
+                                <dt className="text-gray-500">Last run</dt>
+                                <dd className="truncate"><LastRunStatus job={job} /></dd>
+                                <dt className="text-gray-500">Runs</dt>
+                                <dd>{job.runs.length}</dd>
+                            </dl>
+                            <div className="flex items-center justify-end gap-2 mt-1">
+                                <button aria-label={`Delete monitoring for ${job.settings.location?.name}`} onClick={() => onDelete(job.id)} disabled={disabled} className="p-1 text-gray-400 hover:text-red-500 disabled:text-gray-300 disabled:cursor-not-allowed">
+                                    <TrashIcon />
+                                </button>
+                                <button onClick={() => onTogglePaused(job.id)} disabled={disabled} className="text-xs font-semibold text-indigo-600 hover:text-indigo-800 disabled:text-indigo-300 disabled:cursor-not-allowed">
+                                    {job.status === 'active' ? 'Pause' : 'Resume'}
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default MonitoringPanel;
@@ -0,0 +1,100 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Insight, InsightType, ScanResult, ScanSettings } from '../types';
+import { ReportBranding, buildReportHtml, loadReportBranding, saveReportBranding } from '../services/reportService.ts';
+import { downloadFile, getExportFilename } from '../services/exportService.ts';
+import { DocumentIcon } from './icons/DocumentIcon';
+
+interface ReportBuilderProps {
+    scanResult: ScanResult;
+    scanSettings: ScanSettings;
+    insights: Record<InsightType, Insight>;
+    onClose: () => void;
+}
+
+const ReportBuilder: React.FC<ReportBuilderProps> = ({ scanResult, scanSettings, insights, onClose }) => {
+    const [branding, setBranding] = useState<ReportBranding>(() => ({
+        ...loadReportBranding(),
+        clientName: scanSettings.location?.name ?? '',
+    }));
+    const previewRef = useRef<HTMLIFrameElement>(null);
+
+    const html = useMemo(
+        () => buildReportHtml({ result: scanResult, settings: scanSettings, insights, branding }),
+        [scanResult, scanSettings, insights, branding]
+    );
+
+    // Agency details are remembered between reports; the client name is per report.
+    const updateBranding = (update: Partial<ReportBranding>) => {
+        setBranding(prev => {
+            const next = { ...prev, ...update };
+            saveReportBranding({ ...next, clientName: '' });
+            return next;
+        });
+    };
+
+    const handleLogoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = () => updateBranding({ logoUrl: reader.result as string });
+        reader.readAsDataURL(file);
+    };
+
+    const handleDownload = () => {
+        downloadFile(html, getExportFilename(`${scanSettings.location?.name ?? 'Scan'}_Report`, 'html'), 'text/html');
+    };
+
+    const inputClass = "w-full mt-1 border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 text-sm";
+
+    return (
+        <section aria-labelledby="report-heading" className="absolute inset-0 bg-white z-30 flex flex-col p-6">
+            <div className="flex items-center justify-between">
+                <h2 id="report-heading" className="text-xl font-bold flex items-center gap-2"><span className="text-indigo-600"><DocumentIcon /></span> Client Report</h2>
+                <button onClick={onClose} className="text-sm font-medium text-gray-600 hover:text-gray-900">Close</button>
+            </div>
+
+            <div className="mt-4 flex-1 min-h-0 flex gap-6">
+                <div className="w-72 shrink-0 space-y-4 text-sm overflow-y-auto">
+                    <div>
+                        <label htmlFor="report-client" className="font-medium text-gray-700">Client name</label>
+                        <input id="report-client" type="text" value={branding.clientName} onChange={(e) => setBranding(prev => ({ ...prev, clientName: e.target.value }))} className={inputClass} />
+                    </div>
+                    <div>
+                        <label htmlFor="report-agency" className="font-medium text-gray-700">Agency name</label>
+                        <input id="report-agency" type="text" value={branding.agencyName} onChange={(e) => updateBranding({ agencyName: e.target.value })} className={inputClass} />
+                    </div>
+                    <div>
+                        <label htmlFor="report-logo" className="font-medium text-gray-700">Logo URL</label>
+                        <input id="report-logo" type="url" placeholder="https://..." value={branding.logoUrl.startsWith('data:') ? '' : branding.logoUrl} onChange={(e) => updateBranding({ logoUrl: e.target.value })} className={inputClass} />
+                        <div className="flex items-center justify-between mt-1">
+                            <label className="text-xs font-semibold text-indigo-600 hover:text-indigo-800 cursor-pointer">
+                                Upload image
+                                <input type="file" accept="image/*" onChange={handleLogoUpload} className="hidden" />
+                            </label>
+                            {branding.logoUrl && (
+                                <button onClick={() => updateBranding({ logoUrl: '' })} className="text-xs font-semibold text-gray-500 hover:text-gray-800">Remove logo</button>
+                            )}
+                        </div>
+                    </div>
+                    <div>
+                        <label htmlFor="report-color" className="font-medium text-gray-700">Brand colour</label>
+                        <input id="report-color" type="color" value={branding.primaryColor} onChange={(e) => updateBranding({ primaryColor: e.target.value })} className="block w-16 h-9 mt-1 border-gray-300 rounded-md" />
+                    </div>
+                    <p className="text-xs text-gray-500">Insights appear in the report once they have been generated in the sidebar.</p>
+                    <div className="space-y-2 pt-2">
+                        <button onClick={() => previewRef.current?.contentWindow?.print()} className="w-full bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg px-4 py-2 text-sm font-semibold shadow-sm">
+                            Print / Save as PDF
+                        </button>
+                        <button onClick={handleDownload} className="w-full border border-gray-300 hover:bg-gray-50 rounded-lg px-4 py-2 text-sm font-semibold">
+                            Download HTML
+                        </button>
+                    </div>
+                </div>
+                {/* Scripts stay disabled; same-origin lets the print button reach the frame, and modals let it print. */}
+                <iframe ref={previewRef} title="Report preview" srcDoc={html} sandbox="allow-same-origin allow-modals" className="flex-1 border border-gray-200 rounded-lg bg-white" />
+            </div>
+        </section>
+    );
+};
+
+export default ReportBuilder;
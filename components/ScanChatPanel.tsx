@@ -0,0 +1,124 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChatMessage } from '../types';
+import MarkdownContent from './MarkdownContent';
+import SourceLink from './SourceLink';
+
+interface ScanChatPanelProps {
+    messages: ChatMessage[];
+    isLoading: boolean;
+    error: { message: string; question: string } | null; // The question that failed, so it can be asked again
+    onSend: (question: string) => void;
+}
+
+const SUGGESTED_QUESTIONS = [
+    'Where am I weakest, and who is beating me there?',
+    'Which two grid points should I target first?',
+    'What would it take to reach the top 3 at the edges of the grid?',
+];
+
+const AnswerSources: React.FC<{ message: ChatMessage }> = ({ message }) => (
+    <ol className="mt-2 pt-2 border-t border-gray-100 space-y-0.5">
+        {message.sources.map((source, index) => (
+            <li key={index} className="flex gap-1 text-xs">
+                <span className="text-gray-500 flex-shrink-0">[{index + 1}]</span>
+                <SourceLink source={source} className="block truncate" />
+            </li>
+        ))}
+    </ol>
+);
+
+const ScanChatPanel: React.FC<ScanChatPanelProps> = ({ messages, isLoading, error, onSend }) => {
+    const [question, setQuestion] = useState('');
+    const endRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        endRef.current?.scrollIntoView({ block: 'nearest' });
+    }, [messages.length, isLoading]);
+
+    const send = (text: string) => {
+        if (!text.trim() || isLoading) return;
+        onSend(text.trim());
+        setQuestion('');
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        send(question);
+    };
+
+    // Enter sends; Shift+Enter starts a new line.
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            send(question);
+        }
+    };
+
+    return (
+        <div className="space-y-3">
+            {messages.length === 0 && !isLoading && (
+                <div className="text-sm text-gray-500">
+                    <p className="mb-2">Ask anything about this scan. Answers use the full grid and its competitors.</p>
+                    <ul className="space-y-1">
+                        {SUGGESTED_QUESTIONS.map(suggestion => (
+                            <li key={suggestion}>
+                                <button onClick={() => send(suggestion)} className="text-left text-xs text-indigo-700 bg-indigo-50 hover:bg-indigo-100 rounded-md px-2 py-1">
+                                    {suggestion}
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            <ul aria-live="polite" className="space-y-3">
+                {messages.map((message, index) => (
+                    <li key={index} className={message.role === 'user' ? 'flex justify-end' : ''}>
+                        {message.role === 'user' ? (
+                            <p className="max-w-[85%] bg-indigo-600 text-white text-sm rounded-lg px-3 py-2 whitespace-pre-wrap">{message.content}</p>
+                        ) : (
+                            <div className="border border-gray-200 rounded-lg p-3 text-sm text-gray-700 bg-white">
+                                <MarkdownContent content={message.content} sources={message.sources} />
+                                {message.sources.length > 0 && <AnswerSources message={message} />}
+                            </div>
+                        )}
+                    </li>
+                ))}
+            </ul>
+
+            {isLoading && (
+                <div role="status" className="flex items-center gap-2 text-sm text-gray-500">
+                    <div className="h-4 w-4 animate-spin rounded-full border-b-2 border-indigo-500"></div>
+                    Thinking...
+                </div>
+            )}
+            {error && (
+                <div role="alert" className="text-sm">
+                    <p className="text-red-500">{error.message}</p>
+                    <button onClick={() => send(error.question)} className="mt-1 text-xs font-semibold text-red-700 hover:text-red-900">
+                        Ask again
+                    </button>
+                </div>
+            )}
+            <div ref={endRef} />
+
+            <form onSubmit={handleSubmit} className="flex gap-2 items-end">
+                <label htmlFor="scan-chat-input" className="sr-only">Ask about this scan</label>
+                <textarea
+                    id="scan-chat-input"
+                    value={question}
+                    onChange={(e) => setQuestion(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    rows={2}
+                    placeholder="Ask about this scan..."
+                    className="flex-grow px-3 py-2 text-sm border border-gray-300 rounded-md shadow-sm resize-none"
+                />
+                <button type="submit" disabled={isLoading || !question.trim()} className="bg-indigo-600 text-white px-3 py-2 rounded-md text-sm font-semibold hover:bg-indigo-700 disabled:bg-indigo-300 disabled:cursor-not-allowed">
+                    Send
+                </button>
+            </form>
+        </div>
+    );
+};
+
+export default ScanChatPanel;
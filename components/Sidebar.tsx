@@ -1,5 +1,22 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { ScanSettings, ScanResult, Insight, InsightType, RankingPoint, ScanHistoryItem, CompetitorRank, GroundingSource, PlaceAutocompleteResult, Business } from '../types';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { ScanSettings, ScanResult, Insight, InsightType, RankingPoint, ScanHistoryItem, CompetitorRank, GroundingSource, PlaceAutocompleteResult, Business, RankProviderId, GridShape, MonitoredJob, Project, SavedBusiness, RejectedCompetitor, CompetitorSet, ScanDraft, ChatMessage } from '../types';
+import { rankProviders, getRankProvider } from '../services/rankProviders.ts';
+import { GRID_SIZE_PRESETS, GRID_SHAPE_LABELS, formatGridSize, formatGridSpec, parseServiceArea } from '../services/gridGeometry.ts';
+import { getTrendKey } from '../services/trendService.ts';
+import { getScanKeywords, getHistoryResults, formatPointRank } from '../services/scanUtils.ts';
+import { KeywordScanProgress } from '../services/scanRunner.ts';
+import { MAX_CONCURRENCY, MAX_REQUESTS_PER_SECOND } from '../services/scanExecutor.ts';
+import { StorageUsage, formatBytes } from '../services/storageService.ts';
+import { getDraftProgress } from '../services/scanDraftService.ts';
+import { buildScanExport, parseScanExport, downloadFile, getExportFilename } from '../services/exportService.ts';
+import { computeBusinessMetrics, sortBusinessMetrics, MetricsSortKey } from '../services/metricsService.ts';
+import { GridDiff, formatRankDelta } from '../services/gridDiff.ts';
+import MonitoringPanel from './MonitoringPanel';
+import WorkspacePanel from './WorkspacePanel';
+import CompetitorSetPanel from './CompetitorSetPanel';
+import MarkdownContent from './MarkdownContent';
+import ScanChatPanel from './ScanChatPanel';
+import SourceLink from './SourceLink';
 import { SettingsIcon } from './icons/SettingsIcon';
 import { ChartBarIcon } from './icons/ChartBarIcon';
 import { SparklesIcon } from './icons/SparklesIcon';
@@ -24,12 +41,52 @@ interface SidebarProps {
   onSelectBusiness: (place: PlaceAutocompleteResult) => void;
   insights: Record<InsightType, Insight>;
   fetchInsights: (type: InsightType) => void;
+  chatMessages: ChatMessage[]; // The assistant conversation about the scan on screen
+  isChatLoading: boolean;
+  chatError: { message: string; question: string } | null;
+  onSendChatMessage: (question: string) => void;
   selectedPoint: RankingPoint | null;
   onHoverCompetitor: (id: string | null) => void;
-  scanProgress: { current: number, total: number } | null;
+  scanProgress: KeywordScanProgress | null;
+  scanError: string | null; // Why the last scan failed
+  isScanPaused: boolean;
+  onPauseScan: () => void;
+  onResumeScan: () => void;
+  onCancelScan: () => void;
+  scanDraft: ScanDraft | null; // An unfinished scan that can be resumed
+  onResumeScanDraft: () => void;
+  onDiscardScanDraft: () => void;
   scanHistory: ScanHistoryItem[];
   onLoadHistory: (item: ScanHistoryItem) => void;
   onDeleteHistory: (id: string) => void;
+  onReplayHistory: (item: ScanHistoryItem) => void;
+  onImportHistory: (items: ScanHistoryItem[]) => void;
+  competitorSet: CompetitorSet | null; // For the selected business
+  onPinCompetitorPlace: (place: PlaceAutocompleteResult) => void;
+  onPinCompetitor: (business: Business) => void;
+  onUnpinCompetitor: (id: string) => void;
+  onExcludeCompetitor: (business: Business) => void;
+  onIncludeCompetitor: (id: string) => void;
+  onSetDiscoverCount: (count: number) => void;
+  onRediscoverCompetitors: () => void;
+  storageUsage: StorageUsage | null;
+  storageError: string | null;
+  monitoredJobs: MonitoredJob[];
+  onToggleMonitoredJob: (id: string) => void;
+  onDeleteMonitoredJob: (id: string) => void;
+  onShowTrends: (groupKey?: string) => void;
+  activeProject: Project | null;
+  onSaveBusiness: () => void;
+  onSaveProjectDefaults: () => void;
+  onUseSavedBusiness: (saved: SavedBusiness) => void;
+  onScanSavedBusiness: (saved: SavedBusiness) => void;
+  onRemoveSavedBusiness: (businessId: string) => void;
+  comparisonCandidates: ScanHistoryItem[];
+  compareBaseId: string | null;
+  onCompareWith: (historyItemId: string | null) => void;
+  gridDiff: GridDiff | null;
+  keywordResults: ScanResult[];
+  onSelectKeyword: (keyword: string) => void;
 }
 
 const Sidebar: React.FC<SidebarProps> = (props) => {
@@ -47,14 +104,21 @@ const Sidebar: React.FC<SidebarProps> = (props) => {
   return <SettingsSidebar {...props} headingRef={settingsHeadingRef} />;
 };
 
-interface SettingsSidebarProps extends Omit<SidebarProps, 'scanResult' | 'onBack' | 'insights' | 'fetchInsights' | 'selectedPoint' | 'onHoverCompetitor'> {
+interface SettingsSidebarProps extends Omit<SidebarProps, 'scanResult' | 'onBack' | 'insights' | 'fetchInsights' | 'selectedPoint' | 'onHoverCompetitor' | 'comparisonCandidates' | 'compareBaseId' | 'onCompareWith' | 'gridDiff' | 'keywordResults' | 'onSelectKeyword'> {
     headingRef: React.RefObject<HTMLHeadingElement>;
 }
 
 const SettingsSidebar: React.FC<SettingsSidebarProps> = ({ 
-    scanSettings, setScanSettings, onScan, isScanning, businesses, onSearch, isSearching, onSelectBusiness, scanProgress, scanHistory, onLoadHistory, onDeleteHistory, headingRef
+    scanSettings, setScanSettings, onScan, isScanning, businesses, onSearch, isSearching, onSelectBusiness, scanProgress, scanError, isScanPaused, onPauseScan, onResumeScan, onCancelScan, scanDraft, onResumeScanDraft, onDiscardScanDraft, scanHistory, onLoadHistory, onDeleteHistory, onReplayHistory, onImportHistory, storageUsage, storageError, monitoredJobs, onToggleMonitoredJob, onDeleteMonitoredJob, onShowTrends,
+    activeProject, onSaveBusiness, onSaveProjectDefaults, onUseSavedBusiness, onScanSavedBusiness, onRemoveSavedBusiness,
+    competitorSet, onPinCompetitorPlace, onUnpinCompetitor, onIncludeCompetitor, onSetDiscoverCount, onRediscoverCompetitors, headingRef
 }) => {
     const [inputValue, setInputValue] = useState('');
+    const [serviceAreaText, setServiceAreaText] = useState(() =>
+        scanSettings.gridSize.serviceArea ? JSON.stringify(scanSettings.gridSize.serviceArea) : ''
+    );
+    const [serviceAreaError, setServiceAreaError] = useState<string | null>(null);
+    const [keywordsText, setKeywordsText] = useState(() => getScanKeywords(scanSettings).join('\n'));
 
     const debouncedSearch = useCallback(
         (query: string) => {
@@ -75,6 +139,24 @@ const SettingsSidebar: React.FC<SettingsSidebarProps> = ({
         setInputValue(scanSettings.location?.name || '');
     }, [scanSettings.location]);
 
+    // Keep the textarea in sync when keywords are set from elsewhere (e.g. a saved business).
+    useEffect(() => {
+        const keywords = getScanKeywords(scanSettings);
+        setKeywordsText(prev => prev.split('\n').map(k => k.trim()).filter(Boolean).join('\n') === keywords.join('\n') ? prev : keywords.join('\n'));
+    }, [scanSettings.keywords, scanSettings.searchQuery]);
+
+    useEffect(() => {
+        const area = scanSettings.gridSize.serviceArea;
+        if (!area) return;
+        setServiceAreaText(prev => {
+            try {
+                return JSON.stringify(parseServiceArea(prev)) === JSON.stringify(area) ? prev : JSON.stringify(area);
+            } catch {
+                return JSON.stringify(area);
+            }
+        });
+    }, [scanSettings.gridSize.serviceArea]);
+
     const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const newQuery = e.target.value;
         setInputValue(newQuery);
@@ -84,6 +166,29 @@ const SettingsSidebar: React.FC<SettingsSidebarProps> = ({
         debouncedSearch(newQuery);
     };
 
+    const handleKeywordsChange = (text: string) => {
+        setKeywordsText(text);
+        const keywords = text.split('\n').map(k => k.trim()).filter(Boolean);
+        setScanSettings(prev => ({ ...prev, keywords, searchQuery: keywords[0] ?? '' }));
+    };
+
+    const handleServiceAreaChange = (text: string) => {
+        setServiceAreaText(text);
+        if (!text.trim()) {
+            setServiceAreaError(null);
+            setScanSettings(prev => ({ ...prev, gridSize: { ...prev.gridSize, serviceArea: undefined } }));
+            return;
+        }
+        try {
+            const serviceArea = parseServiceArea(text);
+            setServiceAreaError(null);
+            setScanSettings(prev => ({ ...prev, gridSize: { ...prev.gridSize, serviceArea } }));
+        } catch (error) {
+            setServiceAreaError(error instanceof Error ? error.message : 'Invalid service area.');
+            setScanSettings(prev => ({ ...prev, gridSize: { ...prev.gridSize, serviceArea: undefined } }));
+        }
+    };
+
     const handleBusinessKeyDown = (e: React.KeyboardEvent, business: PlaceAutocompleteResult) => {
       if (e.key === 'Enter' || e.key === ' ') {
         e.preventDefault();
@@ -100,6 +205,18 @@ const SettingsSidebar: React.FC<SettingsSidebarProps> = ({
             <p className="text-gray-500 text-sm mt-1">Analyze local search rankings for your target location.</p>
             
             <div className="flex-grow mt-8 overflow-y-auto -mr-3 pr-2">
+                {activeProject && (
+                    <WorkspacePanel
+                        project={activeProject}
+                        scanSettings={scanSettings}
+                        onSaveBusiness={onSaveBusiness}
+                        onSaveDefaults={onSaveProjectDefaults}
+                        onUseBusiness={onUseSavedBusiness}
+                        onScanBusiness={onScanSavedBusiness}
+                        onRemoveBusiness={onRemoveSavedBusiness}
+                        disabled={isScanning}
+                    />
+                )}
                 <div>
                     <h3 className="text-base font-semibold flex items-center gap-2"><SettingsIcon /> Scan Settings</h3>
                     <div className="mt-4 space-y-4 text-sm">
@@ -133,62 +250,217 @@ const SettingsSidebar: React.FC<SettingsSidebarProps> = ({
                             </div>
                         </div>
                         <div>
-                            <label htmlFor="search-query" className="font-medium text-gray-700">Search Query</label>
-                            <input 
-                                type="text"
+                            <label htmlFor="search-query" className="font-medium text-gray-700">Keywords</label>
+                            <textarea
                                 id="search-query"
-                                value={scanSettings.searchQuery}
-                                onChange={(e) => setScanSettings(prev => ({ ...prev, searchQuery: e.target.value }))}
+                                rows={3}
+                                value={keywordsText}
+                                onChange={(e) => handleKeywordsChange(e.target.value)}
+                                aria-describedby="search-query-help"
                                 className="w-full mt-1 border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
                                 disabled={isScanning}
                             />
+                            <p id="search-query-help" className="text-xs text-gray-500 mt-1">One keyword per line. Each keyword is scanned across the whole grid.</p>
                         </div>
+                        {scanSettings.location && competitorSet && (
+                            <CompetitorSetPanel
+                                target={scanSettings.location}
+                                competitorSet={competitorSet}
+                                businesses={businesses}
+                                onSearch={onSearch}
+                                isSearching={isSearching}
+                                onPin={onPinCompetitorPlace}
+                                onUnpin={onUnpinCompetitor}
+                                onInclude={onIncludeCompetitor}
+                                onSetDiscoverCount={onSetDiscoverCount}
+                                onRediscover={onRediscoverCompetitors}
+                                disabled={isScanning}
+                            />
+                        )}
                         <div>
                             <label htmlFor="grid-size" className="font-medium text-gray-700">Grid Size</label>
                             <select
                                 id="grid-size"
-                                value={scanSettings.gridSize}
-                                onChange={(e) => setScanSettings(prev => ({ ...prev, gridSize: e.target.value }))}
+                                value={formatGridSize(scanSettings.gridSize)}
+                                onChange={(e) => {
+                                    const preset = GRID_SIZE_PRESETS.find(p => formatGridSize(p) === e.target.value);
+                                    if (preset) setScanSettings(prev => ({ ...prev, gridSize: { ...prev.gridSize, ...preset } }));
+                                }}
+                                className="w-full mt-1 border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                                disabled={isScanning}
+                            >
+                                {GRID_SIZE_PRESETS.map(preset => (
+                                    <option key={formatGridSize(preset)}>{formatGridSize(preset)}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="grid-shape" className="font-medium text-gray-700">Grid Shape</label>
+                            <select
+                                id="grid-shape"
+                                value={scanSettings.gridSize.shape}
+                                onChange={(e) => setScanSettings(prev => ({ ...prev, gridSize: { ...prev.gridSize, shape: e.target.value as GridShape } }))}
                                 className="w-full mt-1 border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
                                 disabled={isScanning}
                             >
-                                <option>3 x 3 (0.5 km)</option>
-                                <option>5 x 5 (0.75 km)</option>
-                                <option>7 x 7 (1 km)</option>
-                                <option>9 x 9 (1.5 km)</option>
-                                <option>11 x 11 (2 km)</option>
-                                <option>13 x 13 (3 km)</option>
-                                <option>15 x 11 (4 km)</option>
-                                <option>21 x 21 (10 km)</option>
+                                {(Object.keys(GRID_SHAPE_LABELS) as GridShape[]).map(shape => (
+                                    <option key={shape} value={shape}>{GRID_SHAPE_LABELS[shape]}</option>
+                                ))}
                             </select>
                         </div>
+                        {scanSettings.gridSize.shape === 'polygon' && (
+                            <div>
+                                <label htmlFor="service-area" className="font-medium text-gray-700">Service Area</label>
+                                <textarea
+                                    id="service-area"
+                                    rows={4}
+                                    placeholder='{"type": "Polygon", "coordinates": [[[lng, lat], ...]]}'
+                                    value={serviceAreaText}
+                                    onChange={(e) => handleServiceAreaChange(e.target.value)}
+                                    aria-invalid={!!serviceAreaError}
+                                    aria-describedby="service-area-help"
+                                    className="w-full mt-1 border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 font-mono text-xs"
+                                    disabled={isScanning}
+                                />
+                                <p id="service-area-help" className={`text-xs mt-1 ${serviceAreaError ? 'text-red-500' : 'text-gray-500'}`}>
+                                    {serviceAreaError ?? 'Paste a GeoJSON Polygon, MultiPolygon or Feature. Grid points outside it are skipped.'}
+                                </p>
+                            </div>
+                        )}
+                        <div>
+                            <label htmlFor="rank-provider" className="font-medium text-gray-700">Rank Provider</label>
+                            <select
+                                id="rank-provider"
+                                value={scanSettings.provider}
+                                onChange={(e) => setScanSettings(prev => ({ ...prev, provider: e.target.value as RankProviderId }))}
+                                className="w-full mt-1 border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                                disabled={isScanning}
+                            >
+                                {rankProviders.map(provider => (
+                                    <option key={provider.id} value={provider.id}>{provider.label}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <div className="grid grid-cols-2 gap-2">
+                                <div>
+                                    <label htmlFor="scan-concurrency" className="font-medium text-gray-700">Parallel Requests</label>
+                                    <input
+                                        type="number"
+                                        id="scan-concurrency"
+                                        min={1}
+                                        max={MAX_CONCURRENCY}
+                                        placeholder={String(getRankProvider(scanSettings.provider).defaultConcurrency)}
+                                        value={scanSettings.concurrency ?? ''}
+                                        onChange={(e) => {
+                                            const concurrency = e.target.value === '' ? undefined : Math.min(MAX_CONCURRENCY, Math.max(1, Math.floor(Number(e.target.value))));
+                                            setScanSettings(prev => ({ ...prev, concurrency }));
+                                        }}
+                                        aria-describedby="scan-rate-help"
+                                        className="w-full mt-1 border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                                        disabled={isScanning}
+                                    />
+                                </div>
+                                <div>
+                                    <label htmlFor="scan-rate" className="font-medium text-gray-700">Requests / sec</label>
+                                    <input
+                                        type="number"
+                                        id="scan-rate"
+                                        min={0.1}
+                                        max={MAX_REQUESTS_PER_SECOND}
+                                        step={0.1}
+                                        placeholder={String(getRankProvider(scanSettings.provider).defaultRequestsPerSecond)}
+                                        value={scanSettings.requestsPerSecond ?? ''}
+                                        onChange={(e) => {
+                                            const requestsPerSecond = e.target.value === '' ? undefined : Math.min(MAX_REQUESTS_PER_SECOND, Math.max(0.1, Number(e.target.value)));
+                                            setScanSettings(prev => ({ ...prev, requestsPerSecond }));
+                                        }}
+                                        aria-describedby="scan-rate-help"
+                                        className="w-full mt-1 border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                                        disabled={isScanning}
+                                    />
+                                </div>
+                            </div>
+                            <p id="scan-rate-help" className="text-xs text-gray-500 mt-1">Leave blank for the provider's defaults. Failing points are retried twice, then marked unknown.</p>
+                        </div>
+                        {scanSettings.provider === 'mock' && (
+                            <div>
+                                <label htmlFor="scan-seed" className="font-medium text-gray-700">Simulation Seed</label>
+                                <input
+                                    type="number"
+                                    id="scan-seed"
+                                    min={0}
+                                    placeholder="Random"
+                                    value={scanSettings.seed ?? ''}
+                                    onChange={(e) => {
+                                        const seed = e.target.value === '' ? undefined : Math.abs(Math.floor(Number(e.target.value))) >>> 0;
+                                        setScanSettings(prev => ({ ...prev, seed }));
+                                    }}
+                                    className="w-full mt-1 border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                                    disabled={isScanning}
+                                />
+                                <p className="text-xs text-gray-500 mt-1">Scans with the same seed, grid and competitors produce identical ranks.</p>
+                            </div>
+                        )}
+                        {scanSettings.provider === 'http' && (
+                            <div>
+                                <label htmlFor="serp-endpoint" className="font-medium text-gray-700">SERP Endpoint</label>
+                                <input
+                                    type="url"
+                                    id="serp-endpoint"
+                                    placeholder="http://localhost:8080/serp"
+                                    value={scanSettings.serpEndpoint ?? ''}
+                                    onChange={(e) => {
+                                        localStorage.setItem('serpEndpoint', e.target.value);
+                                        setScanSettings(prev => ({ ...prev, serpEndpoint: e.target.value }));
+                                    }}
+                                    className="w-full mt-1 border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+                                    disabled={isScanning}
+                                />
+                                <p className="text-xs text-gray-500 mt-1">Called once per grid point with <code>q</code>, <code>lat</code>, <code>lng</code> and <code>placeId</code>.</p>
+                            </div>
+                        )}
                     </div>
                 </div>
-                <ScanHistory history={scanHistory} onLoad={onLoadHistory} onDelete={onDeleteHistory} disabled={isScanning} />
+                <ScanHistory history={scanHistory} onLoad={onLoadHistory} onDelete={onDeleteHistory} onReplay={onReplayHistory} onImport={onImportHistory} onShowTrends={() => onShowTrends()} storageUsage={storageUsage} storageError={storageError} disabled={isScanning} />
+                <MonitoringPanel jobs={monitoredJobs} onTogglePaused={onToggleMonitoredJob} onDelete={onDeleteMonitoredJob} disabled={isScanning} />
             </div>
 
             <div className="mt-auto pt-4">
                 {isScanning && scanProgress && (
                     <div aria-live="polite" className="mb-2 text-center text-sm text-gray-600">
-                        <p id="progress-label">Scanning point {scanProgress.current} of {scanProgress.total}...</p>
+                        {scanProgress.keywordCount > 1 && <p className="truncate">Keyword {scanProgress.keywordIndex + 1} of {scanProgress.keywordCount}: "{scanProgress.keyword}"</p>}
+                        <p id="progress-label">{isScanPaused ? `Paused after point ${scanProgress.current} of ${scanProgress.total}` : `Scanning point ${scanProgress.current} of ${scanProgress.total}...`}</p>
                         <div role="progressbar" aria-labelledby="progress-label" aria-valuenow={scanProgress.current} aria-valuemin={0} aria-valuemax={scanProgress.total} className="w-full bg-gray-200 rounded-full h-2 mt-1">
-                            <div className="bg-indigo-600 h-2 rounded-full" style={{ width: `${(scanProgress.current / scanProgress.total) * 100}%` }}></div>
+                            <div className={`${isScanPaused ? 'bg-amber-500' : 'bg-indigo-600'} h-2 rounded-full`} style={{ width: `${(scanProgress.current / scanProgress.total) * 100}%` }}></div>
                         </div>
                     </div>
                 )}
+                {isScanning && (
+                    <div className="mb-2 flex gap-2">
+                        <button onClick={isScanPaused ? onResumeScan : onPauseScan} className="flex-1 border border-gray-300 bg-white hover:bg-gray-50 text-gray-700 rounded-lg px-3 py-2 text-sm font-semibold">
+                            {isScanPaused ? 'Resume' : 'Pause'}
+                        </button>
+                        <button onClick={onCancelScan} className="flex-1 border border-red-200 bg-white hover:bg-red-50 text-red-700 rounded-lg px-3 py-2 text-sm font-semibold">
+                            Cancel
+                        </button>
+                    </div>
+                )}
+                {!isScanning && scanDraft && <ScanDraftNotice draft={scanDraft} onResume={onResumeScanDraft} onDiscard={onDiscardScanDraft} />}
+                {!isScanning && scanError && <p role="alert" className="mb-2 text-sm text-red-600">Scan failed: {scanError}</p>}
                  <button 
                     onClick={onScan}
-                    disabled={isScanning || !scanSettings.location}
+                    disabled={isScanning || !scanSettings.location || !scanSettings.searchQuery.trim() || (scanSettings.provider === 'http' && !scanSettings.serpEndpoint) || (scanSettings.gridSize.shape === 'polygon' && !scanSettings.gridSize.serviceArea)}
                     className="w-full flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg px-4 py-3 text-sm font-semibold shadow-sm transition-colors disabled:bg-indigo-300 disabled:cursor-not-allowed"
                  >
-                    {isScanning ? 'Scanning...' : <><BoltIcon /> Start Quick Scan</>}
+                    {isScanning ? (isScanPaused ? 'Paused' : 'Scanning...') : <><BoltIcon /> Start Quick Scan</>}
                  </button>
             </div>
         </aside>
     );
 };
 
-const ResultsSidebar: React.FC<SidebarProps> = ({ scanSettings, scanResult, onBack, insights, fetchInsights, selectedPoint, onHoverCompetitor }) => {
+const ResultsSidebar: React.FC<SidebarProps> = ({ scanSettings, scanResult, onBack, insights, fetchInsights, chatMessages, isChatLoading, chatError, onSendChatMessage, selectedPoint, onHoverCompetitor, onShowTrends, comparisonCandidates, compareBaseId, onCompareWith, gridDiff, keywordResults, onSelectKeyword, competitorSet, onPinCompetitor, onUnpinCompetitor, onExcludeCompetitor }) => {
     const [activeTab, setActiveTab] = useState('summary');
     const resultsHeadingRef = useRef<HTMLHeadingElement>(null);
 
@@ -206,11 +478,15 @@ const ResultsSidebar: React.FC<SidebarProps> = ({ scanSettings, scanResult, onBa
         return (
             <div className="mt-4 flex-grow space-y-3">
                 <div id="summary-panel" role="tabpanel" hidden={activeTab !== 'summary'} aria-labelledby="summary-tab">
+                    {activeTab === 'summary' && scanResult && !selectedPoint && <FailedPointsNotice rankings={scanResult.rankings} />}
+                    {activeTab === 'summary' && scanResult && keywordResults.length > 1 && !selectedPoint && (
+                        <KeywordMatrix results={keywordResults} activeKeyword={scanResult.keyword} onSelectKeyword={onSelectKeyword} />
+                    )}
                     {activeTab === 'summary' && scanResult && (
                         selectedPoint ? (
-                            <PointDrillDown point={selectedPoint} onHoverCompetitor={onHoverCompetitor} targetBusinessId={scanSettings.location?.id} />
+                            <PointDrillDown point={selectedPoint} onHoverCompetitor={onHoverCompetitor} targetBusinessId={scanSettings.location?.id} rankDelta={gridDiff?.points.find(p => p.pointId === selectedPoint.id)?.delta} />
                         ) : (
-                            <CompetitorList competitors={scanResult.competitors} sources={scanResult.sources} onHoverCompetitor={onHoverCompetitor} />
+                            <CompetitorList scanResult={scanResult} target={scanSettings.location} onHoverCompetitor={onHoverCompetitor} competitorSet={competitorSet} onPin={onPinCompetitor} onUnpin={onUnpinCompetitor} onExclude={onExcludeCompetitor} />
                         )
                     )}
                 </div>
@@ -223,6 +499,11 @@ const ResultsSidebar: React.FC<SidebarProps> = ({ scanSettings, scanResult, onBa
                         </>
                     )}
                 </div>
+                <div id="chat-panel" role="tabpanel" hidden={activeTab !== 'chat'} aria-labelledby="chat-tab">
+                    {activeTab === 'chat' && (
+                        <ScanChatPanel messages={chatMessages} isLoading={isChatLoading} error={chatError} onSend={onSendChatMessage} />
+                    )}
+                </div>
             </div>
         );
     };
@@ -238,10 +519,35 @@ const ResultsSidebar: React.FC<SidebarProps> = ({ scanSettings, scanResult, onBa
                 <div className="mt-3 space-y-2 text-sm text-gray-600">
                     <p><strong>Location:</strong> {scanSettings.location?.name}</p>
                     <p><strong>Search Query:</strong> {scanSettings.searchQuery}</p>
-                    <p><strong>Grid Size:</strong> {scanSettings.gridSize}</p>
+                    {keywordResults.length > 1 && <p><strong>Keywords:</strong> {keywordResults.length} scanned</p>}
+                    <p><strong>Grid Size:</strong> {formatGridSpec(scanSettings.gridSize)}</p>
+                    <p><strong>Rank Provider:</strong> {getRankProvider(scanSettings.provider).label}</p>
+                    {scanResult?.seed !== undefined && <p><strong>Seed:</strong> <span className="font-mono">{scanResult.seed}</span></p>}
                 </div>
+                <button onClick={() => onShowTrends(getTrendKey(scanSettings))} className="mt-3 text-xs font-semibold text-indigo-600 hover:text-indigo-800">
+                    View trend for this business &amp; keyword
+                </button>
             </div>
 
+            {keywordResults.length > 1 && (
+                <div role="group" aria-label="Keyword" className="mt-3 flex flex-wrap gap-1">
+                    {keywordResults.map(result => (
+                        <button
+                            key={result.keyword}
+                            aria-pressed={result.keyword === scanResult?.keyword}
+                            onClick={() => result.keyword && onSelectKeyword(result.keyword)}
+                            className={`text-xs font-medium px-2 py-1 rounded-full border ${result.keyword === scanResult?.keyword ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-700 border-gray-300 hover:border-indigo-400'}`}
+                        >
+                            {result.keyword}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {comparisonCandidates.length > 0 && (
+                <ScanComparison candidates={comparisonCandidates} compareBaseId={compareBaseId} onCompareWith={onCompareWith} diff={gridDiff} />
+            )}
+
             <div className="mt-6">
                 <h3 ref={resultsHeadingRef} tabIndex={-1} className="text-base font-semibold flex items-center gap-2 focus:outline-none"><ChartBarIcon /> Scan Results</h3>
                 <div role="tablist" aria-label="Scan Results" className="mt-3 flex border border-gray-200 rounded-lg p-1 bg-gray-50">
@@ -251,8 +557,8 @@ const ResultsSidebar: React.FC<SidebarProps> = ({ scanSettings, scanResult, onBa
                         aria-selected={activeTab === 'summary'}
                         aria-controls="summary-panel"
                         onClick={() => setActiveTab('summary')}
-                        className={`w-1/2 py-1.5 text-sm font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 ${activeTab === 'summary' ? 'bg-white shadow-sm' : 'text-gray-600'}`}>
-                        Result Summary
+                        className={`w-1/3 py-1.5 text-sm font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 ${activeTab === 'summary' ? 'bg-white shadow-sm' : 'text-gray-600'}`}>
+                        Summary
                     </button>
                     <button 
                         id="insights-tab"
@@ -260,8 +566,17 @@ const ResultsSidebar: React.FC<SidebarProps> = ({ scanSettings, scanResult, onBa
                         aria-selected={activeTab === 'insights'}
                         aria-controls="insights-panel"
                         onClick={() => setActiveTab('insights')}
-                        className={`w-1/2 py-1.5 text-sm font-medium rounded-md flex items-center justify-center gap-1 focus:outline-none focus:ring-2 focus:ring-indigo-500 ${activeTab === 'insights' ? 'bg-white shadow-sm text-indigo-600' : 'text-gray-600'}`}>
-                       <SparklesIcon /> AI Insights
+                        className={`w-1/3 py-1.5 text-sm font-medium rounded-md flex items-center justify-center gap-1 focus:outline-none focus:ring-2 focus:ring-indigo-500 ${activeTab === 'insights' ? 'bg-white shadow-sm text-indigo-600' : 'text-gray-600'}`}>
+                       <SparklesIcon /> Insights
+                    </button>
+                    <button 
+                        id="chat-tab"
+                        role="tab"
+                        aria-selected={activeTab === 'chat'}
+                        aria-controls="chat-panel"
+                        onClick={() => setActiveTab('chat')}
+                        className={`w-1/3 py-1.5 text-sm font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 ${activeTab === 'chat' ? 'bg-white shadow-sm text-indigo-600' : 'text-gray-600'}`}>
+                        Ask
                     </button>
                 </div>
             </div>
@@ -273,49 +588,208 @@ const ResultsSidebar: React.FC<SidebarProps> = ({ scanSettings, scanResult, onBa
     );
 };
 
-const CompetitorList: React.FC<{competitors: (Business & { averageRank?: number })[], sources: GroundingSource[], onHoverCompetitor: (id: string | null) => void}> = ({ competitors, sources, onHoverCompetitor }) => (
+const KeywordMatrix: React.FC<{results: ScanResult[], activeKeyword?: string, onSelectKeyword: (keyword: string) => void}> = ({ results, activeKeyword, onSelectKeyword }) => (
     <div className="border border-gray-200 rounded-lg bg-white">
         <div className="p-3 border-b border-gray-200">
-            <h4 id="competitor-list-heading" className="font-semibold text-sm">Top Competitors by Avg. Rank</h4>
+            <h4 id="keyword-matrix-heading" className="font-semibold text-sm">Keywords</h4>
         </div>
-        <ul aria-labelledby="competitor-list-heading" className="divide-y divide-gray-200">
-            {competitors.length > 0 ? competitors.map((c, i) => (
-               <li key={c.id} tabIndex={0}
-                   className="px-3 py-2 text-sm focus:outline-none focus:bg-indigo-50" 
-                   onMouseEnter={() => onHoverCompetitor(c.id)} onMouseLeave={() => onHoverCompetitor(null)}
-                   onFocus={() => onHoverCompetitor(c.id)} onBlur={() => onHoverCompetitor(null)}>
-                   <div className="flex justify-between items-center">
-                    <p className="font-medium text-gray-800 flex-1 truncate pr-2">{i + 1}. {c.name}</p>
-                    {c.averageRank && <span aria-label={`Average rank ${c.averageRank.toFixed(1)}`} className="text-xs text-gray-500 bg-gray-100 px-1.5 py-0.5 rounded-full font-mono">~{c.averageRank.toFixed(1)}</span>}
-                   </div>
-                   <p className="text-xs text-gray-500 truncate mt-0.5">{c.address}</p>
-               </li>
-            )) : (
-                <li className="px-3 py-4 text-sm text-gray-500 text-center">No competitors found.</li>
-            )}
-        </ul>
-        {sources.length > 0 && (
-            <div className="p-3 border-t border-gray-200 bg-gray-50">
-                <h5 className="text-xs font-semibold text-gray-500 uppercase">Data from Google Maps</h5>
-                <ul className="mt-1 space-y-1">
-                    {sources.map((source, index) => (
-                        <li key={index}>
-                            <a href={source.uri} target="_blank" rel="noopener noreferrer" className="text-indigo-600 hover:underline text-xs block truncate" title={source.title}>
-                                {source.title || source.uri}
-                            </a>
-                        </li>
-                    ))}
-                </ul>
+        <table aria-labelledby="keyword-matrix-heading" className="w-full text-sm">
+            <thead>
+                <tr className="text-xs text-gray-500 text-left">
+                    <th className="px-3 py-1.5 font-medium">Keyword</th>
+                    <th className="px-2 py-1.5 font-medium text-right">Avg</th>
+                    <th className="px-2 py-1.5 font-medium text-right">Top 3</th>
+                    <th className="px-3 py-1.5 font-medium text-right">Top 10</th>
+                </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+                {results.map(result => (
+                    <tr key={result.keyword}
+                        tabIndex={0}
+                        aria-selected={result.keyword === activeKeyword}
+                        onClick={() => result.keyword && onSelectKeyword(result.keyword)}
+                        onKeyDown={(e) => { if ((e.key === 'Enter' || e.key === ' ') && result.keyword) { e.preventDefault(); onSelectKeyword(result.keyword); } }}
+                        className={`cursor-pointer focus:outline-none focus:bg-indigo-50 hover:bg-gray-50 ${result.keyword === activeKeyword ? 'bg-indigo-50 font-semibold' : ''}`}>
+                        <td className="px-3 py-1.5 truncate max-w-[140px]" title={result.keyword}>{result.keyword}</td>
+                        <td className="px-2 py-1.5 text-right font-mono">{result.summary.averageRank.toFixed(1)}</td>
+                        <td className="px-2 py-1.5 text-right font-mono">{result.summary.top3.toFixed(0)}%</td>
+                        <td className="px-3 py-1.5 text-right font-mono">{result.summary.top10.toFixed(0)}%</td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    </div>
+);
+
+const ScanComparison: React.FC<{candidates: ScanHistoryItem[], compareBaseId: string | null, onCompareWith: (id: string | null) => void, diff: GridDiff | null}> = ({ candidates, compareBaseId, onCompareWith, diff }) => (
+    <div className="mt-3 border border-gray-200 rounded-lg p-3 text-sm">
+        <label htmlFor="compare-with" className="font-medium text-gray-700">Compare with</label>
+        <select
+            id="compare-with"
+            value={compareBaseId ?? ''}
+            onChange={(e) => onCompareWith(e.target.value || null)}
+            className="w-full mt-1 border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+        >
+            <option value="">No comparison</option>
+            {candidates.map(item => (
+                <option key={item.id} value={item.id}>{item.timestamp} (avg {item.result.summary.averageRank.toFixed(1)})</option>
+            ))}
+        </select>
+        {diff && (
+            <div aria-live="polite" className="mt-3">
+                <div className="grid grid-cols-3 gap-2 text-center">
+                    <div className="bg-green-50 rounded-md py-1.5"><p className="text-lg font-bold text-green-600">{diff.gained}</p><p className="text-xs text-gray-600">Gained</p></div>
+                    <div className="bg-red-50 rounded-md py-1.5"><p className="text-lg font-bold text-red-600">{diff.lost}</p><p className="text-xs text-gray-600">Lost</p></div>
+                    <div className="bg-gray-50 rounded-md py-1.5"><p className="text-lg font-bold text-gray-600">{diff.unchanged}</p><p className="text-xs text-gray-600">Unchanged</p></div>
+                </div>
+                <p className="mt-2 text-xs text-gray-600">
+                    Top-3 coverage: {diff.top3Before.toFixed(0)}% &rarr; {diff.top3After.toFixed(0)}%{' '}
+                    <span className={`font-semibold ${diff.top3Change > 0 ? 'text-green-600' : diff.top3Change < 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                        ({diff.top3Change > 0 ? '+' : ''}{diff.top3Change.toFixed(0)} pts)
+                    </span>
+                </p>
+                {diff.unmatched > 0 && <p className="mt-1 text-xs text-gray-500">{diff.unmatched} point(s) had no match, or no known rank, in one of the scans.</p>}
             </div>
         )}
     </div>
 );
 
-const PointDrillDown: React.FC<{point: RankingPoint, onHoverCompetitor: (id: string | null) => void, targetBusinessId?: string}> = ({ point, onHoverCompetitor, targetBusinessId }) => (
+const LEADERBOARD_COLUMNS: { key: MetricsSortKey; label: string; title: string }[] = [
+    { key: 'name', label: 'Business', title: 'Business name' },
+    { key: 'visibilityShare', label: 'SoLV', title: 'Share of local voice: position-weighted visibility across all grid points' },
+    { key: 'top3Presence', label: 'Top 3', title: 'Share of grid points where the business ranks 1-3' },
+    { key: 'averageRank', label: 'Avg', title: 'Average rank over the points where the business appears' },
+];
+
+// Explains which discovered competitors failed validation and were left out of the scan.
+const RejectedCompetitors: React.FC<{ rejected: RejectedCompetitor[] }> = ({ rejected }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    return (
+        <div className="px-3 py-2 border-t border-gray-200 bg-amber-50 text-xs">
+            <button aria-expanded={isOpen} aria-controls="rejected-competitors" onClick={() => setIsOpen(!isOpen)} className="w-full flex justify-between items-center text-left font-semibold text-amber-800">
+                <span>{rejected.length} discovered competitor{rejected.length === 1 ? ' was' : 's were'} dropped</span>
+                {isOpen ? <ChevronUpIcon /> : <ChevronDownIcon />}
+            </button>
+            {isOpen && (
+                <ul id="rejected-competitors" className="mt-1 space-y-1 text-amber-900">
+                    {rejected.map((r, index) => (
+                        <li key={index}><span className="font-medium">{r.name}</span>: {r.reason}</li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+interface CompetitorListProps {
+    scanResult: ScanResult;
+    target: Business | null;
+    onHoverCompetitor: (id: string | null) => void;
+    competitorSet: CompetitorSet | null;
+    onPin: (business: Business) => void;
+    onUnpin: (id: string) => void;
+    onExclude: (business: Business) => void;
+}
+
+const CompetitorList: React.FC<CompetitorListProps> = ({ scanResult, target, onHoverCompetitor, competitorSet, onPin, onUnpin, onExclude }) => {
+    const [sortKey, setSortKey] = useState<MetricsSortKey>('visibilityShare');
+    const [ascending, setAscending] = useState(false);
+    const metrics = useMemo(() => computeBusinessMetrics(scanResult, target), [scanResult, target]);
+    const sorted = useMemo(() => sortBusinessMetrics(metrics, sortKey, ascending), [metrics, sortKey, ascending]);
+    const { sources } = scanResult;
+    const pinnedIds = new Set(competitorSet?.pinned.map(b => b.id));
+    const excludedIds = new Set(competitorSet?.excluded.map(b => b.id));
+
+    const handleSort = (key: MetricsSortKey) => {
+        if (key === sortKey) {
+            setAscending(!ascending);
+        } else {
+            setSortKey(key);
+            // Ranks and names read best ascending; shares read best descending.
+            setAscending(key === 'averageRank' || key === 'name');
+        }
+    };
+
+    return (
+        <div className="border border-gray-200 rounded-lg bg-white">
+            <div className="p-3 border-b border-gray-200">
+                <h4 id="competitor-list-heading" className="font-semibold text-sm">Competitor Leaderboard</h4>
+            </div>
+            {sorted.length > 0 ? (
+                <table aria-labelledby="competitor-list-heading" className="w-full text-sm table-fixed">
+                    <thead>
+                        <tr className="text-xs text-gray-500 text-left">
+                            {LEADERBOARD_COLUMNS.map(column => (
+                                <th key={column.key} scope="col" aria-sort={sortKey === column.key ? (ascending ? 'ascending' : 'descending') : 'none'}
+                                    className={`py-1.5 font-medium ${column.key === 'name' ? 'px-3 w-[45%]' : 'px-1.5 text-right'}`}>
+                                    <button onClick={() => handleSort(column.key)} title={column.title} className="hover:text-gray-800 focus:outline-none focus:underline">
+                                        {column.label}{sortKey === column.key && (ascending ? ' ▲' : ' ▼')}
+                                    </button>
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                        {sorted.map(m => (
+                            <tr key={m.business.id} tabIndex={0}
+                                className={`focus:outline-none focus:bg-indigo-50 ${m.isTarget ? 'bg-indigo-50' : ''}`}
+                                onMouseEnter={() => onHoverCompetitor(m.business.id)} onMouseLeave={() => onHoverCompetitor(null)}
+                                onFocus={() => onHoverCompetitor(m.business.id)} onBlur={() => onHoverCompetitor(null)}>
+                                <td className="px-3 py-2">
+                                    <p className={`font-medium truncate ${m.isTarget ? 'text-indigo-700' : 'text-gray-800'}`} title={m.business.name}>{m.business.name}</p>
+                                    <p className="text-xs text-gray-500 truncate" title={m.bestAreaLabel ? `Strongest around ${m.bestAreaLabel} from your business` : undefined}>
+                                        {m.bestAreaLabel ? `Best area: ${m.bestAreaLabel}` : m.business.address}
+                                    </p>
+                                    {!m.isTarget && competitorSet && (
+                                        <p className="text-xs space-x-2">
+                                            {pinnedIds.has(m.business.id)
+                                                ? <button onClick={() => onUnpin(m.business.id)} aria-label={`Unpin ${m.business.name}`} className="font-semibold text-indigo-600 hover:text-indigo-800">Pinned</button>
+                                                : <button onClick={() => onPin(m.business)} aria-label={`Pin ${m.business.name}`} className="font-semibold text-gray-500 hover:text-gray-800">Pin</button>}
+                                            {excludedIds.has(m.business.id)
+                                                ? <span className="text-gray-400">Excluded from next scan</span>
+                                                : <button onClick={() => onExclude(m.business)} aria-label={`Exclude ${m.business.name} from future scans`} className="font-semibold text-gray-500 hover:text-red-600">Exclude</button>}
+                                        </p>
+                                    )}
+                                </td>
+                                <td className="px-1.5 py-2 text-right font-mono text-xs">{m.visibilityShare.toFixed(1)}%</td>
+                                <td className="px-1.5 py-2 text-right font-mono text-xs">{m.top3Presence.toFixed(0)}%</td>
+                                <td className="px-1.5 py-2 text-right font-mono text-xs" title={`Ranks at ${m.presence.toFixed(0)}% of points`}>{m.averageRank !== null ? m.averageRank.toFixed(1) : '—'}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            ) : (
+                <p className="px-3 py-4 text-sm text-gray-500 text-center">No competitors found.</p>
+            )}
+            {scanResult.rejectedCompetitors && scanResult.rejectedCompetitors.length > 0 && (
+                <RejectedCompetitors rejected={scanResult.rejectedCompetitors} />
+            )}
+            {sources.length > 0 && (
+                <div className="p-3 border-t border-gray-200 bg-gray-50">
+                    <h5 className="text-xs font-semibold text-gray-500 uppercase">Data from Google Maps</h5>
+                    <ul className="mt-1 space-y-1">
+                        {sources.map((source, index) => (
+                            <li key={index}>
+                                <SourceLink source={source} className="text-xs block truncate" title={source.title} />
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const PointDrillDown: React.FC<{point: RankingPoint, onHoverCompetitor: (id: string | null) => void, targetBusinessId?: string, rankDelta?: number | null}> = ({ point, onHoverCompetitor, targetBusinessId, rankDelta }) => (
     <div className="border border-gray-200 rounded-lg bg-white">
         <div className="p-3 border-b border-gray-200">
             <h4 id="drilldown-heading" className="font-semibold text-sm">Rankings at this Point</h4>
-            <p className="text-xs text-gray-500">Your Rank: <span className="font-bold text-indigo-600">{point.rank > 20 ? '20+' : point.rank}</span></p>
+            <p className="text-xs text-gray-500">Your Rank: <span className="font-bold text-indigo-600">{point.error ? 'Unknown' : formatPointRank(point)}</span>
+                {rankDelta !== undefined && rankDelta !== null && (
+                    <span className={`ml-2 font-semibold ${rankDelta > 0 ? 'text-green-600' : rankDelta < 0 ? 'text-red-600' : 'text-gray-500'}`}>({formatRankDelta(rankDelta)} vs. compared scan)</span>
+                )}
+            </p>
+            {point.error && <p className="text-xs text-red-600 mt-1">This point couldn't be ranked: {point.error}</p>}
         </div>
         <ul aria-labelledby="drilldown-heading" className="divide-y divide-gray-200 max-h-[40vh] overflow-y-auto">
             {point.competitorRanks.map(({ rank, business }) => (
@@ -331,33 +805,161 @@ const PointDrillDown: React.FC<{point: RankingPoint, onHoverCompetitor: (id: str
     </div>
 );
 
-const ScanHistory: React.FC<{history: ScanHistoryItem[], onLoad: (item: ScanHistoryItem) => void, onDelete: (id: string) => void, disabled: boolean}> = ({ history, onLoad, onDelete, disabled }) => {
+// Points that failed after every retry are left out of the averages; say so rather than hide it.
+const FailedPointsNotice: React.FC<{ rankings: RankingPoint[] }> = ({ rankings }) => {
+    const failed = rankings.filter(p => p.error).length;
+    if (failed === 0) return null;
+    return (
+        <p role="status" className="mb-3 p-2 text-xs text-gray-600 bg-gray-100 border border-gray-200 rounded-md">
+            {failed} of {rankings.length} points couldn't be ranked and are shown as "?" on the map. They're excluded from the averages.
+        </p>
+    );
+};
+
+const HISTORY_PAGE_SIZE = 10;
+
+// Offers to continue a scan that was cancelled, failed or interrupted by closing the page.
+const ScanDraftNotice: React.FC<{ draft: ScanDraft, onResume: () => void, onDiscard: () => void }> = ({ draft, onResume, onDiscard }) => {
+    const { completed, total } = getDraftProgress(draft);
+    const keywords = getScanKeywords(draft.settings);
+    return (
+        <div className="mb-2 p-3 border border-amber-200 bg-amber-50 rounded-lg text-sm">
+            <p className="font-semibold text-gray-800">Unfinished scan</p>
+            <p className="text-xs text-gray-600 truncate" title={draft.settings.location?.address}>
+                {draft.settings.location?.name} &middot; {keywords.map(k => `"${k}"`).join(', ')}
+            </p>
+            <p className="text-xs text-gray-600">{completed} of {total} points scanned, last saved {new Date(draft.updatedAt).toLocaleString()}</p>
+            <div className="mt-2 flex gap-3">
+                <button onClick={onResume} className="font-semibold text-indigo-600 hover:text-indigo-800">Resume</button>
+                <button onClick={onDiscard} className="font-semibold text-gray-500 hover:text-gray-800">Discard</button>
+            </div>
+        </div>
+    );
+};
+
+const StorageIndicator: React.FC<{ usage: StorageUsage | null, error: string | null }> = ({ usage, error }) => {
+    if (!usage && !error) return null;
+    const percent = usage ? Math.min(100, (usage.usage / usage.quota) * 100) : 0;
+    return (
+        <div className="pt-1 text-xs text-gray-500">
+            {usage && (
+                <>
+                    <p id="storage-usage-label">Storage: {formatBytes(usage.usage)} of {formatBytes(usage.quota)} used</p>
+                    <div role="progressbar" aria-labelledby="storage-usage-label" aria-valuenow={Math.round(percent)} aria-valuemin={0} aria-valuemax={100} className="w-full bg-gray-200 rounded-full h-1.5 mt-1">
+                        <div className={`h-1.5 rounded-full ${percent > 80 ? 'bg-red-500' : 'bg-indigo-400'}`} style={{ width: `${Math.max(percent, 1)}%` }}></div>
+                    </div>
+                </>
+            )}
+            {error && <p role="alert" className="mt-1 text-red-600">{error}</p>}
+        </div>
+    );
+};
+
+interface ScanHistoryProps {
+    history: ScanHistoryItem[];
+    onLoad: (item: ScanHistoryItem) => void;
+    onDelete: (id: string) => void;
+    onReplay: (item: ScanHistoryItem) => void;
+    onImport: (items: ScanHistoryItem[]) => void;
+    onShowTrends: () => void;
+    storageUsage: StorageUsage | null;
+    storageError: string | null;
+    disabled: boolean;
+}
+
+const ScanHistory: React.FC<ScanHistoryProps> = ({ history, onLoad, onDelete, onReplay, onImport, onShowTrends, storageUsage, storageError, disabled }) => {
     const [isOpen, setIsOpen] = useState(false);
+    const [page, setPage] = useState(0);
+    const [importMessage, setImportMessage] = useState<{ text: string, isError: boolean } | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Allow picking the same file again
+        if (!file) return;
+        try {
+            const items = parseScanExport(await file.text());
+            onImport(items);
+            setImportMessage({ text: `Imported ${items.length} scan${items.length === 1 ? '' : 's'}.`, isError: false });
+        } catch (error) {
+            setImportMessage({ text: error instanceof Error ? error.message : 'Failed to import scans.', isError: true });
+        }
+    };
 
-    if (history.length === 0) return null;
+    const importExportControls = (
+        <>
+            <div className="flex gap-2">
+                <button onClick={() => fileInputRef.current?.click()} disabled={disabled} className="flex-1 text-xs font-semibold text-gray-600 hover:text-gray-900 border border-gray-200 rounded-lg py-1.5 disabled:text-gray-300 disabled:cursor-not-allowed">
+                    Import JSON
+                </button>
+                {history.length > 0 && (
+                    <button onClick={() => downloadFile(buildScanExport(history), getExportFilename('History', 'json'), 'application/json')} className="flex-1 text-xs font-semibold text-gray-600 hover:text-gray-900 border border-gray-200 rounded-lg py-1.5">
+                        Export All ({history.length})
+                    </button>
+                )}
+            </div>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" aria-label="Import scans from JSON" onChange={handleImportFile} className="hidden" />
+            {importMessage && <p role="status" className={`text-xs ${importMessage.isError ? 'text-red-600' : 'text-green-600'}`}>{importMessage.text}</p>}
+        </>
+    );
+
+    const pageCount = Math.max(1, Math.ceil(history.length / HISTORY_PAGE_SIZE));
+    // Deleting the last scan on the final page shouldn't strand the user on an empty page.
+    const currentPage = Math.min(page, pageCount - 1);
+    const pageItems = history.slice(currentPage * HISTORY_PAGE_SIZE, (currentPage + 1) * HISTORY_PAGE_SIZE);
+
+    if (history.length === 0) {
+        return (
+            <div className="mt-6 space-y-2">
+                {importExportControls}
+                <StorageIndicator usage={null} error={storageError} />
+            </div>
+        );
+    }
 
     return (
         <div className="mt-6">
             <button aria-expanded={isOpen} aria-controls="history-panel" onClick={() => setIsOpen(!isOpen)} className="w-full flex justify-between items-center text-left text-base font-semibold">
-                <span className="flex items-center gap-2"><ClockIcon /> Scan History</span>
+                <span className="flex items-center gap-2"><ClockIcon /> Scan History ({history.length})</span>
                 {isOpen ? <ChevronUpIcon /> : <ChevronDownIcon />}
             </button>
             {isOpen && (
                 <div id="history-panel" className="mt-2 space-y-2">
-                    {history.map(item => (
+                    <button onClick={onShowTrends} className="w-full text-xs font-semibold text-indigo-600 hover:text-indigo-800 border border-dashed border-indigo-200 rounded-lg py-1.5">
+                        View Rank Trends
+                    </button>
+                    {importExportControls}
+                    {pageItems.map(item => (
                         <div key={item.id} className="border rounded-lg p-2 text-sm hover:border-indigo-400 group">
                             <p className="font-semibold truncate">{item.settings.location?.name}</p>
-                            <p className="text-xs text-gray-500 truncate">"{item.settings.searchQuery}" on {item.timestamp}</p>
+                            <p className="text-xs text-gray-500 truncate">{getHistoryResults(item).map(r => `"${r.keyword}"`).join(', ')} on {item.timestamp}</p>
                             <div className="flex items-center justify-end gap-2 mt-1">
                                 <button aria-label={`Delete scan for ${item.settings.location?.name}`} onClick={() => onDelete(item.id)} disabled={disabled} className="p-1 text-gray-400 hover:text-red-500 disabled:text-gray-300 disabled:cursor-not-allowed">
                                     <TrashIcon />
                                 </button>
+                                {item.result.seed !== undefined && (
+                                    <button aria-label={`Replay scan for ${item.settings.location?.name} with seed ${item.result.seed}`} title={`Re-run with seed ${item.result.seed}`} onClick={() => onReplay(item)} disabled={disabled} className="text-xs font-semibold text-gray-500 hover:text-gray-800 disabled:text-gray-300 disabled:cursor-not-allowed">
+                                        Replay
+                                    </button>
+                                )}
                                 <button aria-label={`Load scan for ${item.settings.location?.name}`} onClick={() => onLoad(item)} disabled={disabled} className="text-xs font-semibold text-indigo-600 hover:text-indigo-800 disabled:text-indigo-300 disabled:cursor-not-allowed">
                                     Load
                                 </button>
                             </div>
                         </div>
                     ))}
+                    {pageCount > 1 && (
+                        <nav aria-label="Scan history pages" className="flex items-center justify-between text-xs">
+                            <button onClick={() => setPage(currentPage - 1)} disabled={currentPage === 0} className="font-semibold text-indigo-600 hover:text-indigo-800 disabled:text-gray-300 disabled:cursor-not-allowed">
+                                Newer
+                            </button>
+                            <span className="text-gray-500">Page {currentPage + 1} of {pageCount}</span>
+                            <button onClick={() => setPage(currentPage + 1)} disabled={currentPage >= pageCount - 1} className="font-semibold text-indigo-600 hover:text-indigo-800 disabled:text-gray-300 disabled:cursor-not-allowed">
+                                Older
+                            </button>
+                        </nav>
+                    )}
+                    <StorageIndicator usage={storageUsage} error={storageError} />
                 </div>
             )}
         </div>
@@ -411,19 +1013,18 @@ const InsightAccordion: React.FC<InsightAccordionProps> = ({ title, type, icon,
                     )}
                     {insight.status === 'success' && (
                         <div>
-                            <p className="whitespace-pre-wrap">{insight.content}</p>
+                            <MarkdownContent content={insight.content ?? ''} sources={insight.sources} />
                             {insight.sources.length > 0 && (
                                 <div className="mt-4">
                                     <h4 className="font-semibold text-xs text-gray-500 uppercase">Sources</h4>
-                                    <ul className="mt-2 space-y-1">
+                                    <ol className="mt-2 space-y-1">
                                         {insight.sources.map((source, index) => (
-                                            <li key={index}>
-                                                <a href={source.uri} target="_blank" rel="noopener noreferrer" className="text-indigo-600 hover:underline text-xs block truncate">
-                                                    {source.title || source.uri}
-                                                </a>
+                                            <li key={index} className="flex gap-1 text-xs">
+                                                <span className="text-gray-500 flex-shrink-0">[{index + 1}]</span>
+                                                <SourceLink source={source} className="block truncate" />
                                             </li>
                                         ))}
-                                    </ul>
+                                    </ol>
                                 </div>
                             )}
                         </div>
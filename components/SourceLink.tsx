@@ -0,0 +1,20 @@
+import React from 'react';
+import { GroundingSource } from '../types';
+import { isSafeUrl } from '../services/markdown.ts';
+
+interface SourceLinkProps {
+    source: GroundingSource;
+    className?: string;
+    title?: string;
+    children?: React.ReactNode; // Defaults to the source's title, or its URI
+}
+
+// Sources come from grounding or imported files, so only web and mail URIs become links; the rest stay text.
+const SourceLink: React.FC<SourceLinkProps> = ({ source, className, title, children }) => {
+    const label = children ?? (source.title || source.uri);
+    return isSafeUrl(source.uri)
+        ? <a href={source.uri} target="_blank" rel="noopener noreferrer" title={title} className={`text-indigo-600 hover:underline ${className ?? ''}`}>{label}</a>
+        : <span title={title} className={`text-gray-600 ${className ?? ''}`}>{label}</span>;
+};
+
+export default SourceLink;
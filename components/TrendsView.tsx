@@ -0,0 +1,146 @@
+import React, { useMemo, useState, useEffect } from 'react';
+import { ScanHistoryItem } from '../types';
+import { buildTrendGroups } from '../services/trendService.ts';
+import { formatGridSpec } from '../services/gridGeometry.ts';
+import LineChart, { LineChartSeries } from './LineChart';
+import { ChartBarIcon } from './icons/ChartBarIcon';
+
+interface TrendsViewProps {
+    history: ScanHistoryItem[];
+    initialGroupKey?: string | null;
+    onLoadHistory: (item: ScanHistoryItem) => void;
+    onClose: () => void;
+}
+
+const TARGET_COLOR = '#4F46E5';
+const COMPETITOR_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#06b6d4', '#a855f7', '#ec4899', '#64748b'];
+
+const formatRank = (value: number) => value.toFixed(1);
+const formatPercent = (value: number) => `${value.toFixed(0)}%`;
+
+// Shows "before → after" with a coloured change, where `lowerIsBetter` flips the colouring for ranks.
+const Delta: React.FC<{ label: string; first: number; last: number; format: (v: number) => string; lowerIsBetter?: boolean }> = ({ label, first, last, format, lowerIsBetter = false }) => {
+    const change = last - first;
+    const improved = lowerIsBetter ? change < 0 : change > 0;
+    const color = change === 0 ? 'text-gray-500' : improved ? 'text-green-600' : 'text-red-500';
+    return (
+        <div className="border border-gray-200 rounded-lg p-3">
+            <p className="text-xs text-gray-500">{label}</p>
+            <p className="text-sm font-semibold">{format(first)} &rarr; {format(last)}</p>
+            <p className={`text-xs font-medium ${color}`}>{change > 0 ? '+' : ''}{format(change)}</p>
+        </div>
+    );
+};
+
+const TrendsView: React.FC<TrendsViewProps> = ({ history, initialGroupKey, onLoadHistory, onClose }) => {
+    const groups = useMemo(() => buildTrendGroups(history), [history]);
+    const [groupKey, setGroupKey] = useState<string | null>(initialGroupKey ?? null);
+
+    useEffect(() => {
+        if (!groups.some(g => g.key === groupKey)) {
+            setGroupKey(groups[0]?.key ?? null);
+        }
+    }, [groups, groupKey]);
+
+    const group = groups.find(g => g.key === groupKey);
+
+    const rankSeries: LineChartSeries[] = group ? [
+        { id: 'target', label: group.location.name, color: TARGET_COLOR, points: group.points.map(p => ({ date: p.date, value: p.averageRank })) },
+    ] : [];
+    const coverageSeries: LineChartSeries[] = group ? [
+        { id: 'top3', label: 'In top 3', color: '#22c55e', points: group.points.map(p => ({ date: p.date, value: p.top3 })) },
+        { id: 'top10', label: 'In top 10', color: '#f97316', points: group.points.map(p => ({ date: p.date, value: p.top10 })) },
+    ] : [];
+    const competitorSeries: LineChartSeries[] = group ? [
+        ...rankSeries,
+        ...group.competitors.map((c, i) => ({
+            id: c.business.id,
+            label: c.business.name,
+            color: COMPETITOR_COLORS[i % COMPETITOR_COLORS.length],
+            points: c.points.map(p => ({ date: p.date, value: p.averageRank })),
+        })),
+    ] : [];
+
+    const first = group?.points[0];
+    const last = group?.points[group.points.length - 1];
+
+    return (
+        <section aria-labelledby="trends-heading" className="absolute inset-0 bg-white z-30 overflow-y-auto p-6">
+            <div className="flex items-center justify-between">
+                <h2 id="trends-heading" className="text-xl font-bold flex items-center gap-2"><span className="text-indigo-600"><ChartBarIcon /></span> Rank Trends</h2>
+                <button onClick={onClose} className="text-sm font-medium text-gray-600 hover:text-gray-900">Close</button>
+            </div>
+
+            {groups.length === 0 ? (
+                <p className="mt-6 text-sm text-gray-500">Run a few scans of the same business and keyword to see trends.</p>
+            ) : (
+                <>
+                    <div className="mt-4 max-w-xl">
+                        <label htmlFor="trend-group" className="text-sm font-medium text-gray-700">Business, keyword and grid</label>
+                        <select
+                            id="trend-group"
+                            value={groupKey ?? ''}
+                            onChange={(e) => setGroupKey(e.target.value)}
+                            className="w-full mt-1 border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 text-sm"
+                        >
+                            {groups.map(g => (
+                                <option key={g.key} value={g.key}>
+                                    {g.location.name} &middot; "{g.searchQuery}" &middot; {formatGridSpec(g.gridSize)} ({g.points.length} scans)
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+
+                    {group && first && last && (
+                        <>
+                            <div className="mt-4 grid grid-cols-3 gap-3 max-w-xl">
+                                <Delta label="Average rank" first={first.averageRank} last={last.averageRank} format={formatRank} lowerIsBetter />
+                                <Delta label="In top 3" first={first.top3} last={last.top3} format={formatPercent} />
+                                <Delta label="In top 10" first={first.top10} last={last.top10} format={formatPercent} />
+                            </div>
+                            {group.points.length === 1 && (
+                                <p className="mt-2 text-xs text-gray-500">Only one scan so far. Trends appear once this grid has been scanned again.</p>
+                            )}
+
+                            <div className="mt-6 grid grid-cols-1 xl:grid-cols-3 gap-6">
+                                <LineChart title="Average rank" series={rankSeries} yMin={1} yMax={21} invertY formatValue={formatRank} />
+                                <LineChart title="Grid coverage" series={coverageSeries} yMin={0} yMax={100} formatValue={formatPercent} />
+                                <LineChart title="Competitor average rank" series={competitorSeries} yMin={1} yMax={21} invertY formatValue={formatRank} />
+                            </div>
+
+                            <table className="mt-6 w-full max-w-3xl text-sm">
+                                <thead>
+                                    <tr className="text-left text-xs text-gray-500 uppercase border-b">
+                                        <th className="py-2 font-semibold">Scanned</th>
+                                        <th className="py-2 font-semibold">Avg rank</th>
+                                        <th className="py-2 font-semibold">Top 3</th>
+                                        <th className="py-2 font-semibold">Top 10</th>
+                                        <th className="py-2"><span className="sr-only">Actions</span></th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-100">
+                                    {[...group.points].reverse().map(point => {
+                                        const item = history.find(h => h.id === point.historyItemId);
+                                        return (
+                                            <tr key={point.historyItemId}>
+                                                <td className="py-1.5">{point.date.toLocaleString()}</td>
+                                                <td className="py-1.5 font-mono">{formatRank(point.averageRank)}</td>
+                                                <td className="py-1.5 font-mono">{formatPercent(point.top3)}</td>
+                                                <td className="py-1.5 font-mono">{formatPercent(point.top10)}</td>
+                                                <td className="py-1.5 text-right">
+                                                    {item && <button onClick={() => onLoadHistory(item)} className="text-xs font-semibold text-indigo-600 hover:text-indigo-800">Load</button>}
+                                                </td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </>
+                    )}
+                </>
+            )}
+        </section>
+    );
+};
+
+export default TrendsView;
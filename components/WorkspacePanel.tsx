@@ -0,0 +1,67 @@
+import React from 'react';
+import { Project, SavedBusiness, ScanSettings } from '../types';
+import { formatGridSpec } from '../services/gridGeometry.ts';
+import { isBusinessSaved } from '../services/workspaceService.ts';
+import { BoltIcon } from './icons/BoltIcon';
+import { TrashIcon } from './icons/TrashIcon';
+
+interface WorkspacePanelProps {
+    project: Project;
+    scanSettings: ScanSettings;
+    onSaveBusiness: () => void;
+    onSaveDefaults: () => void;
+    onUseBusiness: (saved: SavedBusiness) => void;
+    onScanBusiness: (saved: SavedBusiness) => void;
+    onRemoveBusiness: (businessId: string) => void;
+    disabled: boolean;
+}
+
+const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ project, scanSettings, onSaveBusiness, onSaveDefaults, onUseBusiness, onScanBusiness, onRemoveBusiness, disabled }) => {
+    const isCurrentSaved = isBusinessSaved(project, scanSettings.location);
+
+    return (
+        <div className="mb-6 border border-gray-200 rounded-lg p-3 text-sm">
+            <div className="flex items-center justify-between">
+                <h3 className="font-semibold truncate">{project.name}</h3>
+                <button onClick={onSaveDefaults} disabled={disabled} title="Use the keywords and grid below as this project's defaults" className="text-xs font-semibold text-gray-500 hover:text-gray-800 disabled:text-gray-300">
+                    Set defaults
+                </button>
+            </div>
+            <p className="text-xs text-gray-500 truncate">
+                Defaults: {project.defaultKeywords.map(k => `"${k}"`).join(', ') || 'no keywords'} &middot; {formatGridSpec(project.defaultGridSize)}
+            </p>
+
+            {project.businesses.length > 0 ? (
+                <ul aria-label={`Saved businesses in ${project.name}`} className="mt-2 divide-y divide-gray-100">
+                    {project.businesses.map(saved => (
+                        <li key={saved.business.id} className="py-1.5 flex items-center gap-2">
+                            <button onClick={() => onUseBusiness(saved)} disabled={disabled} className="flex-1 min-w-0 text-left disabled:cursor-not-allowed" title="Load into scan settings">
+                                <p className="font-medium truncate">{saved.business.name}</p>
+                                <p className="text-xs text-gray-500 truncate">
+                                    {(saved.keywords ?? project.defaultKeywords).join(', ')}
+                                    {saved.gridSize && <> &middot; {formatGridSpec(saved.gridSize)}</>}
+                                </p>
+                            </button>
+                            <button aria-label={`Remove ${saved.business.name} from project`} onClick={() => onRemoveBusiness(saved.business.id)} disabled={disabled} className="p-1 text-gray-400 hover:text-red-500 disabled:text-gray-300">
+                                <TrashIcon />
+                            </button>
+                            <button aria-label={`Scan ${saved.business.name}`} onClick={() => onScanBusiness(saved)} disabled={disabled} className="flex items-center gap-1 text-xs font-semibold bg-indigo-50 text-indigo-700 rounded-md px-2 py-1 hover:bg-indigo-100 disabled:bg-gray-100 disabled:text-gray-400">
+                                <BoltIcon /> Scan
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            ) : (
+                <p className="mt-2 text-xs text-gray-500">No saved businesses yet.</p>
+            )}
+
+            {scanSettings.location && !isCurrentSaved && (
+                <button onClick={onSaveBusiness} disabled={disabled} className="mt-2 w-full text-xs font-semibold text-indigo-600 hover:text-indigo-800 border border-dashed border-indigo-200 rounded-lg py-1.5 disabled:text-indigo-300">
+                    Save "{scanSettings.location.name}" to {project.name}
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default WorkspacePanel;
@@ -0,0 +1,58 @@
+import { Business, BusinessProfile } from '../types';
+import { getBusinessProfiles } from './geminiService.ts';
+import { GeminiError } from './geminiClient.ts';
+
+// Ids from Places are Place IDs; discovery falls back to generated ids, which Places can't look up.
+const isPlaceId = (id: string) => /^ChIJ[\w-]+$/.test(id);
+
+// Place types every business has, which say nothing about what it is.
+const GENERIC_PLACE_TYPES = new Set(['establishment', 'point_of_interest', 'store', 'food', 'health']);
+
+const formatPlaceType = (type: string) => type.charAt(0).toUpperCase() + type.slice(1).replace(/_/g, ' ');
+
+const getPlaceProfile = (service: google.maps.places.PlacesService, placeId: string): Promise<BusinessProfile | null> =>
+    new Promise(resolve => {
+        service.getDetails({ placeId, fields: ['rating', 'user_ratings_total', 'types'] }, (result, status) => {
+            if (status !== window.google.maps.places.PlacesServiceStatus.OK || !result) {
+                console.warn(`Failed to get place details for ${placeId}:`, status);
+                resolve(null);
+                return;
+            }
+            resolve({
+                rating: result.rating,
+                reviewCount: result.user_ratings_total,
+                categories: result.types?.filter(type => !GENERIC_PLACE_TYPES.has(type)).map(formatPlaceType),
+                source: 'places',
+            });
+        });
+    });
+
+/**
+ * Profile facts (rating, review count, categories) for each business, keyed by id. Businesses
+ * with a Place ID are looked up with Places details when a PlacesService is available; the rest
+ * are looked up with Gemini's Maps grounding. A failed lookup leaves businesses out rather than
+ * failing the analysis that asked for them, unless the request was cancelled.
+ */
+export const resolveBusinessProfiles = async (
+    location: Business,
+    businesses: Business[],
+    { placesService, signal }: { placesService?: google.maps.places.PlacesService | null; signal?: AbortSignal } = {}
+): Promise<Record<string, BusinessProfile>> => {
+    const profiles: Record<string, BusinessProfile> = {};
+
+    if (placesService) {
+        const found = await Promise.all(businesses.filter(b => isPlaceId(b.id)).map(async b => [b.id, await getPlaceProfile(placesService, b.id)] as const));
+        found.forEach(([id, profile]) => {
+            if (profile) profiles[id] = profile;
+        });
+    }
+
+    const missing = businesses.filter(b => !profiles[b.id]);
+    try {
+        Object.assign(profiles, await getBusinessProfiles(location, missing, signal));
+    } catch (error) {
+        if (error instanceof GeminiError && error.kind === 'aborted') throw error;
+        console.warn("Failed to look up business profiles with grounding:", error);
+    }
+    return profiles;
+};
@@ -0,0 +1,119 @@
+import { Business, CompetitorSet, GroundingSource, RejectedCompetitor } from '../types';
+import { getCompetitorList } from './geminiService.ts';
+import { GeminiError } from './geminiClient.ts';
+
+const STORAGE_KEY = 'gmbCompetitorSets';
+
+export const DISCOVER_COUNT_OPTIONS = [3, 5, 8, 10];
+export const DEFAULT_DISCOVER_COUNT = 5;
+
+// Competitor sets keyed by the target business's id.
+export type CompetitorSets = Record<string, CompetitorSet>;
+
+const EMPTY_SET: CompetitorSet = { pinned: [], excluded: [], discoverCount: DEFAULT_DISCOVER_COUNT, discovered: {} };
+
+export const loadCompetitorSets = (): CompetitorSets => {
+    try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        return saved ? JSON.parse(saved) : {};
+    } catch (error) {
+        console.error("Failed to load competitor sets:", error);
+        return {};
+    }
+};
+
+export const saveCompetitorSets = (sets: CompetitorSets) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(sets));
+    } catch (error) {
+        console.error("Failed to save competitor sets:", error);
+    }
+};
+
+export const getCompetitorSet = (sets: CompetitorSets, businessId: string): CompetitorSet =>
+    ({ ...EMPTY_SET, ...sets[businessId] });
+
+export const updateCompetitorSet = (sets: CompetitorSets, businessId: string, update: (set: CompetitorSet) => CompetitorSet): CompetitorSets =>
+    ({ ...sets, [businessId]: update(getCompetitorSet(sets, businessId)) });
+
+const keywordKey = (keyword: string) => keyword.trim().toLowerCase();
+
+const withoutBusiness = (businesses: Business[], id: string) => businesses.filter(b => b.id !== id);
+
+export const pinCompetitor = (set: CompetitorSet, business: Business): CompetitorSet => ({
+    ...set,
+    pinned: [...withoutBusiness(set.pinned, business.id), business],
+    excluded: withoutBusiness(set.excluded, business.id),
+});
+
+export const unpinCompetitor = (set: CompetitorSet, businessId: string): CompetitorSet =>
+    ({ ...set, pinned: withoutBusiness(set.pinned, businessId) });
+
+export const excludeCompetitor = (set: CompetitorSet, business: Business): CompetitorSet => ({
+    ...set,
+    pinned: withoutBusiness(set.pinned, business.id),
+    excluded: [...withoutBusiness(set.excluded, business.id), business],
+});
+
+export const includeCompetitor = (set: CompetitorSet, businessId: string): CompetitorSet =>
+    ({ ...set, excluded: withoutBusiness(set.excluded, businessId) });
+
+// Changing the count invalidates saved discoveries, since they were sized for the old count.
+export const setDiscoverCount = (set: CompetitorSet, discoverCount: number): CompetitorSet =>
+    ({ ...set, discoverCount, discovered: discoverCount === set.discoverCount ? set.discovered : {} });
+
+export const clearDiscovered = (set: CompetitorSet, now: Date = new Date()): CompetitorSet =>
+    ({ ...set, discovered: {}, rediscoverRequestedAt: now.toISOString() });
+
+// Pinned competitors first, then discovered ones that haven't been pinned or excluded.
+export const buildCompetitorList = (set: CompetitorSet, discovered: Business[]): Business[] => {
+    const skip = new Set([...set.pinned, ...set.excluded].map(b => b.id));
+    return [...set.pinned, ...discovered.filter(b => !skip.has(b.id))];
+};
+
+/**
+ * The competitors a scan of `location` for `keyword` ranks against. Discovery runs once per
+ * business and keyword and is saved, so rescans (manual or monitored) reuse the same set and
+ * trends stay comparable. Pinned and excluded competitors are applied on every call.
+ */
+export const resolveCompetitors = async (
+    location: Business,
+    keyword: string,
+    maxDistanceKm: number,
+    signal?: AbortSignal
+): Promise<{ businesses: Business[], sources: GroundingSource[], rejected: RejectedCompetitor[] }> => {
+    const set = getCompetitorSet(loadCompetitorSets(), location.id);
+    const saved = set.discovered[keywordKey(keyword)];
+    if (saved) {
+        return { businesses: buildCompetitorList(set, saved.businesses), sources: saved.sources, rejected: [] };
+    }
+
+    let discovery: Awaited<ReturnType<typeof getCompetitorList>>;
+    try {
+        discovery = await getCompetitorList(location, keyword, {
+            count: set.discoverCount,
+            maxDistanceKm,
+            exclude: [...set.pinned, ...set.excluded],
+            refreshedAfter: set.rediscoverRequestedAt ? new Date(set.rediscoverRequestedAt).getTime() : undefined,
+            signal,
+        });
+    } catch (error) {
+        // Pinned competitors still make a meaningful scan when discovery finds nothing usable.
+        if (set.pinned.length === 0 || !(error instanceof GeminiError && error.kind === 'parse')) throw error;
+        console.warn("Competitor discovery found nothing; scanning against the pinned competitors only:", error);
+        return { businesses: set.pinned, sources: [], rejected: [] };
+    }
+
+    // Only a successful discovery is saved; a failed one is retried on the next scan.
+    // Reload so a set edited while discovery was running isn't overwritten.
+    const sets = loadCompetitorSets();
+    saveCompetitorSets(updateCompetitorSet(sets, location.id, current => ({
+        ...current,
+        discovered: {
+            ...current.discovered,
+            [keywordKey(keyword)]: { businesses: discovery.businesses, sources: discovery.sources, discoveredAt: new Date().toISOString() },
+        },
+    })));
+
+    return { ...discovery, businesses: buildCompetitorList(set, discovery.businesses) };
+};
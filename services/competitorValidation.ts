@@ -0,0 +1,140 @@
+import { Business, RejectedCompetitor } from '../types';
+import { haversineDistanceKm } from './gridGeometry.ts';
+
+// Competitors further than this from the target are almost certainly hallucinated or mis-geocoded.
+export const MAX_COMPETITOR_DISTANCE_KM = 50;
+
+export interface CompetitorValidationResult {
+    businesses: Business[];
+    rejected: RejectedCompetitor[];
+}
+
+/**
+ * Pulls the JSON array out of a model response. Handles markdown fences and leading prose, and
+ * when the array is cut off mid-way (a truncated response) keeps every object that did complete.
+ * Returns null when nothing usable is found.
+ */
+export const extractJsonArray = (text: string): unknown[] | null => {
+    const unfenced = text.replace(/```(?:json)?/gi, '').trim();
+    const start = unfenced.indexOf('[');
+    if (start === -1) return null;
+
+    const end = unfenced.lastIndexOf(']');
+    if (end > start) {
+        const candidate = unfenced.slice(start, end + 1);
+        try {
+            const parsed = JSON.parse(candidate);
+            if (Array.isArray(parsed)) return parsed;
+        } catch {
+            // Fall through to object-by-object recovery, which also copes with trailing commas.
+        }
+    }
+
+    const objects: unknown[] = [];
+    let depth = 0;
+    let objectStart = -1;
+    let inString = false;
+    for (let i = start + 1; i < unfenced.length; i++) {
+        const char = unfenced[i];
+        if (inString) {
+            if (char === '\\') i++;
+            else if (char === '"') inString = false;
+            continue;
+        }
+        if (char === '"') inString = true;
+        else if (char === '{') {
+            if (depth === 0) objectStart = i;
+            depth++;
+        } else if (char === '}') {
+            depth--;
+            if (depth === 0 && objectStart !== -1) {
+                try {
+                    objects.push(JSON.parse(unfenced.slice(objectStart, i + 1)));
+                } catch {
+                    // A malformed object is skipped; validation reports the shortfall.
+                }
+                objectStart = -1;
+            }
+        }
+    }
+    return objects.length > 0 ? objects : null;
+};
+
+// Accepts numbers and numeric strings ("40.71"), which models produce interchangeably.
+export const toCoordinate = (value: unknown): number | null => {
+    const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    return typeof number === 'number' && Number.isFinite(number) ? number : null;
+};
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '');
+
+// Id for a business that came without one. Built only from what identifies it, so the same
+// business gets the same id wherever it's listed.
+export const generateBusinessId = (name: string, address: string) => `generated-${normalizeName(name)}-${normalizeName(address)}`;
+
+/**
+ * Checks each competitor the model returned. Entries are repaired where the intent is clear
+ * (string coordinates, `lat`/`lng` keys, a missing id) and rejected, with a reason, when a required
+ * field is missing, the coordinates are invalid or implausibly far away, or the entry duplicates
+ * the target or another competitor. Entries matching `known` businesses (from an earlier attempt,
+ * or pinned and excluded competitors) are skipped without being reported.
+ */
+export const validateCompetitors = (
+    raw: unknown[],
+    target: Business,
+    maxDistanceKm: number = MAX_COMPETITOR_DISTANCE_KM,
+    known: Business[] = []
+): CompetitorValidationResult => {
+    const businesses: Business[] = [];
+    const rejected: RejectedCompetitor[] = [];
+    const seenIds = new Set([target.id]);
+    const seenNames = new Set([normalizeName(target.name)]);
+    const knownIds = new Set(known.map(b => b.id));
+    const knownNames = new Set(known.map(b => normalizeName(b.name)));
+
+    raw.forEach((entry, index) => {
+        const label = `Result ${index + 1}`;
+        if (!entry || typeof entry !== 'object') {
+            rejected.push({ name: label, reason: 'Not an object.' });
+            return;
+        }
+        const record = entry as Record<string, unknown>;
+        const name = typeof record.name === 'string' ? record.name.trim() : '';
+        if (!name) {
+            rejected.push({ name: label, reason: 'Missing name.' });
+            return;
+        }
+
+        const latitude = toCoordinate(record.latitude ?? record.lat);
+        const longitude = toCoordinate(record.longitude ?? record.lng ?? record.lon);
+        if (latitude === null || longitude === null) {
+            rejected.push({ name, reason: 'Missing or non-numeric coordinates.' });
+            return;
+        }
+        if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+            rejected.push({ name, reason: `Coordinates out of range (${latitude}, ${longitude}).` });
+            return;
+        }
+        const distanceKm = haversineDistanceKm({ lat: target.latitude, lng: target.longitude }, { lat: latitude, lng: longitude });
+        if (distanceKm > maxDistanceKm) {
+            rejected.push({ name, reason: `${distanceKm.toFixed(0)} km from the target business (limit ${maxDistanceKm} km).` });
+            return;
+        }
+
+        const address = typeof record.address === 'string' ? record.address.trim() : '';
+        const givenId = typeof record.id === 'string' ? record.id.trim() : '';
+        const id = givenId || generateBusinessId(name, address);
+
+        if (knownIds.has(id) || knownNames.has(normalizeName(name))) return;
+        if (seenIds.has(id) || seenNames.has(normalizeName(name))) {
+            const isTarget = id === target.id || normalizeName(name) === normalizeName(target.name);
+            rejected.push({ name, reason: isTarget ? 'This is the target business.' : 'Duplicate of another competitor.' });
+            return;
+        }
+        seenIds.add(id);
+        seenNames.add(normalizeName(name));
+        businesses.push({ id, name, address, latitude, longitude });
+    });
+
+    return { businesses, rejected };
+};
@@ -0,0 +1,5 @@
+// Escaping for text embedded in generated HTML and XML documents (reports, KML).
+
+// Escapes the five characters that are special in HTML and XML text and attribute values.
+export const escapeHtml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
@@ -0,0 +1,175 @@
+import { Business, ChatMessage, CompetitorRank, GridSpec, GroundingSource, RankingPoint, RejectedCompetitor, SavedInsight, ScanHistoryItem, ScanResult } from '../types';
+import { getHistoryResults } from './scanUtils.ts';
+import { GRID_SHAPE_LABELS, isServiceArea, normalizeGridSpec } from './gridGeometry.ts';
+
+const EXPORT_FORMAT = 'gmb-scan-export';
+const EXPORT_VERSION = 1;
+
+export interface ScanExportFile {
+    format: typeof EXPORT_FORMAT;
+    version: number;
+    exportedAt: string; // ISO timestamp
+    scans: ScanHistoryItem[];
+}
+
+/** Serialises complete history items, including every competitor rank, source and setting. */
+export const buildScanExport = (items: ScanHistoryItem[], now: Date = new Date()): string => {
+    const file: ScanExportFile = { format: EXPORT_FORMAT, version: EXPORT_VERSION, exportedAt: now.toISOString(), scans: items };
+    return JSON.stringify(file, null, 2);
+};
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isArrayOf = <T>(value: unknown, isItem: (item: unknown) => item is T): value is T[] => Array.isArray(value) && value.every(isItem);
+
+const isBusiness = (value: unknown): value is Business =>
+    isObject(value) && typeof value.id === 'string' && typeof value.name === 'string' && typeof value.address === 'string'
+    && isFiniteNumber(value.latitude) && isFiniteNumber(value.longitude);
+
+const isSource = (value: unknown): value is GroundingSource =>
+    isObject(value) && typeof value.uri === 'string' && typeof value.title === 'string';
+
+const isCompetitorRank = (value: unknown): value is CompetitorRank =>
+    isObject(value) && isFiniteNumber(value.rank) && isBusiness(value.business);
+
+// Failed points carry an error instead of a rank (older exports stored 0 as a placeholder).
+const isRankingPoint = (value: unknown): value is RankingPoint =>
+    isObject(value) && isFiniteNumber(value.id) && isFiniteNumber(value.lat) && isFiniteNumber(value.lng)
+    && isArrayOf(value.competitorRanks, isCompetitorRank)
+    && (typeof value.error === 'string' || (value.error === undefined && isFiniteNumber(value.rank)));
+
+const isScanResult = (value: unknown): value is ScanResult =>
+    isObject(value) && isObject(value.summary)
+    && isFiniteNumber(value.summary.averageRank) && isFiniteNumber(value.summary.top3) && isFiniteNumber(value.summary.top10)
+    && isArrayOf(value.rankings, isRankingPoint) && isArrayOf(value.competitors, isBusiness) && isArrayOf(value.sources, isSource)
+    && isStoredGridSize(value.gridSize) && (value.keyword === undefined || typeof value.keyword === 'string')
+    && (value.seed === undefined || isFiniteNumber(value.seed))
+    && (value.rejectedCompetitors === undefined || isArrayOf(value.rejectedCompetitors, isRejectedCompetitor));
+
+const isPositiveNumber = (value: unknown): value is number => isFiniteNumber(value) && value > 0;
+
+const isGridSpec = (value: unknown): value is GridSpec =>
+    isObject(value) && typeof value.shape === 'string' && Object.hasOwn(GRID_SHAPE_LABELS, value.shape)
+    && isPositiveNumber(value.cols) && isPositiveNumber(value.rows) && isPositiveNumber(value.distanceKm)
+    && (value.shape === 'polygon' ? isServiceArea(value.serviceArea) : value.serviceArea === undefined || isServiceArea(value.serviceArea));
+
+// History saved before grids were structured holds a display string, which normalizeGridSpec converts.
+const isStoredGridSize = (value: unknown): value is GridSpec | string => typeof value === 'string' || isGridSpec(value);
+
+const isRejectedCompetitor = (value: unknown): value is RejectedCompetitor =>
+    isObject(value) && typeof value.name === 'string' && typeof value.reason === 'string';
+
+const isSavedInsight = (value: unknown): value is SavedInsight =>
+    isObject(value) && typeof value.content === 'string' && isArrayOf(value.sources, isSource);
+
+const isChatMessage = (value: unknown): value is ChatMessage =>
+    isObject(value) && (value.role === 'user' || value.role === 'model') && typeof value.content === 'string'
+    && isArrayOf(value.sources, isSource) && typeof value.createdAt === 'string';
+
+// Checks everything the app reads from a history item, so a malformed import fails here rather than while rendering.
+const isHistoryItem = (value: unknown): value is ScanHistoryItem =>
+    isObject(value) && typeof value.id === 'string' && typeof value.timestamp === 'string'
+    && isObject(value.settings) && typeof value.settings.searchQuery === 'string' && isStoredGridSize(value.settings.gridSize)
+    && (value.settings.keywords === undefined || isArrayOf(value.settings.keywords, isString))
+    && (value.settings.provider === undefined || value.settings.provider === 'mock' || value.settings.provider === 'http')
+    && (value.settings.seed === undefined || isFiniteNumber(value.settings.seed))
+    && (value.settings.location === null || isBusiness(value.settings.location))
+    && isScanResult(value.result)
+    && (value.keywordResults === undefined || isArrayOf(value.keywordResults, isScanResult))
+    && (value.projectId === undefined || typeof value.projectId === 'string')
+    && (value.insights === undefined || (isObject(value.insights)
+        && Object.values(value.insights).every(byType => isObject(byType) && Object.values(byType).every(isSavedInsight))))
+    && (value.chats === undefined || (isObject(value.chats) && Object.values(value.chats).every(messages => isArrayOf(messages, isChatMessage))));
+
+const normalizePoint = (point: RankingPoint): RankingPoint => (point.error ? { ...point, rank: null } : point);
+
+const normalizeResult = (result: ScanResult): ScanResult => ({
+    ...result,
+    gridSize: normalizeGridSpec(result.gridSize),
+    rankings: result.rankings.map(normalizePoint),
+});
+
+/**
+ * Parses a file produced by `buildScanExport`. Throws with a user-facing message when the file
+ * isn't an export, comes from a newer version of the app, or contains malformed scans.
+ */
+export const parseScanExport = (text: string): ScanHistoryItem[] => {
+    let file: unknown;
+    try {
+        file = JSON.parse(text);
+    } catch {
+        throw new Error("The file is not valid JSON.");
+    }
+    if (!isObject(file) || file.format !== EXPORT_FORMAT || typeof file.version !== 'number') {
+        throw new Error("The file is not a scan export.");
+    }
+    if (file.version > EXPORT_VERSION) {
+        throw new Error(`The file was exported by a newer version of the app (format v${file.version}).`);
+    }
+    if (!Array.isArray(file.scans)) {
+        throw new Error("The export contains no scans.");
+    }
+    const scans: unknown[] = file.scans;
+    const invalidIndex = scans.findIndex(scan => !isHistoryItem(scan));
+    if (invalidIndex !== -1) {
+        throw new Error(`Scan ${invalidIndex + 1} in the export is malformed.`);
+    }
+    return (scans as ScanHistoryItem[]).map(item => ({
+        ...item,
+        settings: { ...item.settings, gridSize: normalizeGridSpec(item.settings.gridSize) },
+        result: normalizeResult(item.result),
+        keywordResults: item.keywordResults?.map(normalizeResult),
+    }));
+};
+
+// RFC 4180 quoting: wrap fields containing commas, quotes or line breaks, doubling inner quotes.
+export const escapeCsvValue = (value: string | number | boolean | null | undefined): string => {
+    if (value === null || value === undefined) return '';
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const CSV_HEADERS = ["Scan ID", "Keyword", "Point ID", "Latitude", "Longitude", "Target Rank", "Rank", "Business ID", "Business Name", "Business Address", "Is Target"];
+
+/** A "long" CSV with one row per grid point per ranked business, across every keyword in the scan. */
+export const buildLongCsv = (item: ScanHistoryItem): string => {
+    const targetId = item.settings.location?.id;
+    const rows = getHistoryResults(item).flatMap(result =>
+        result.rankings.flatMap(point => point.competitorRanks.map(({ rank, business }) => [
+            item.id,
+            result.keyword ?? item.settings.searchQuery,
+            point.id,
+            point.lat,
+            point.lng,
+            point.rank,
+            rank,
+            business.id,
+            business.name,
+            business.address,
+            business.id === targetId,
+        ]))
+    );
+    return [CSV_HEADERS, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n');
+};
+
+export const downloadFile = (content: string, filename: string, mimeType: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement("a");
+    link.setAttribute("href", url);
+    link.setAttribute("download", filename);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    // Some browsers start the download after click() returns; revoking now could cancel it.
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Filenames keep letters, digits, dashes and underscores so they're safe on every OS.
+export const getExportFilename = (name: string, extension: string, date: Date = new Date()): string =>
+    `GMB_Scan_${name.replace(/[^\w-]+/g, '_')}_${date.toISOString().split('T')[0]}.${extension}`;
@@ -0,0 +1,114 @@
+import { hashString } from './random.ts';
+import { GeminiError } from './geminiClient.ts';
+
+const STORAGE_KEY = 'gmbGeminiCache';
+// Oldest entries are evicted beyond this, keeping the cache well inside the localStorage quota.
+const MAX_ENTRIES = 100;
+
+export const INSIGHT_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+export const COMPETITOR_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface CacheEntry {
+    value: unknown;
+    createdAt: number;
+    expiresAt: number;
+}
+
+type CacheStore = Record<string, CacheEntry>;
+
+const loadCache = (): CacheStore => {
+    try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        return saved ? JSON.parse(saved) : {};
+    } catch (error) {
+        console.error("Failed to load Gemini cache:", error);
+        return {};
+    }
+};
+
+const saveCache = (cache: CacheStore) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(cache));
+    } catch (error) {
+        console.error("Failed to save Gemini cache:", error);
+    }
+};
+
+// A running request shared by identical concurrent calls. It's aborted once every caller has aborted.
+interface InFlightRequest {
+    promise: Promise<unknown>;
+    controller: AbortController;
+    subscribers: number;
+}
+
+const inFlight = new Map<string, InFlightRequest>();
+
+// The prompt is hashed (with its length, to make collisions vanishingly unlikely) to keep keys short.
+export const getCacheKey = (model: string, prompt: string, locationId: string): string =>
+    `${model}|${locationId}|${prompt.length}:${hashString(prompt).toString(36)}`;
+
+export interface CacheOptions<T> {
+    ttlMs: number;
+    shouldCache?: (value: T) => boolean; // e.g. reject empty answers so they're retried
+    notBefore?: number; // Ignore entries created before this time (ms), to force a fresh answer
+    signal?: AbortSignal; // Aborts this caller's wait; the shared request stops only when no caller is left
+}
+
+// Waits for `request` on behalf of one caller, rejecting as soon as that caller's signal aborts.
+const subscribe = <T>(key: string, request: InFlightRequest, signal?: AbortSignal): Promise<T> => {
+    request.subscribers++;
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => {
+            reject(new GeminiError('aborted'));
+            if (--request.subscribers > 0) return;
+            request.controller.abort();
+            if (inFlight.get(key) === request) inFlight.delete(key);
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+        request.promise
+            .then(value => resolve(value as T), reject)
+            .finally(() => signal?.removeEventListener('abort', onAbort));
+    });
+};
+
+/**
+ * Returns the cached value for `key` if it hasn't expired; otherwise runs `fetcher` and caches its
+ * result. Failures are never cached. Concurrent calls for the same key share one `fetcher` run,
+ * which gets its own signal so one caller aborting doesn't cancel the others.
+ */
+export const cachedRequest = async <T>(
+    key: string,
+    fetcher: (signal: AbortSignal) => Promise<T>,
+    { ttlMs, shouldCache = () => true, notBefore = 0, signal }: CacheOptions<T>
+): Promise<T> => {
+    const now = Date.now();
+    const cached = loadCache()[key];
+    if (cached && cached.expiresAt > now && cached.createdAt >= notBefore) {
+        return cached.value as T;
+    }
+    if (signal?.aborted) throw new GeminiError('aborted');
+
+    const pending = inFlight.get(key);
+    if (pending) return subscribe<T>(key, pending, signal);
+
+    const controller = new AbortController();
+    const promise = fetcher(controller.signal)
+        .then(value => {
+            if (shouldCache(value)) {
+                const cache = loadCache();
+                cache[key] = { value, createdAt: now, expiresAt: now + ttlMs };
+                const live = Object.entries(cache)
+                    .filter(([, entry]) => entry.expiresAt > now)
+                    .sort(([, a], [, b]) => b.createdAt - a.createdAt)
+                    .slice(0, MAX_ENTRIES);
+                saveCache(Object.fromEntries(live));
+            }
+            return value;
+        })
+        .finally(() => {
+            if (inFlight.get(key) === request) inFlight.delete(key);
+        });
+    const request: InFlightRequest = { promise, controller, subscribers: 0 };
+    inFlight.set(key, request);
+    return subscribe<T>(key, request, signal);
+};
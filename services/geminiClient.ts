@@ -0,0 +1,122 @@
+import { GoogleGenAI, GenerateContentParameters, GenerateContentResponse, ApiError } from "@google/genai";
+
+const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+const DEFAULT_MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 1_000;
+const MAX_BACKOFF_MS = 16_000;
+
+export type GeminiErrorKind = 'quota' | 'auth' | 'network' | 'timeout' | 'parse' | 'aborted' | 'request';
+
+const ERROR_MESSAGES: Record<GeminiErrorKind, string> = {
+    quota: 'The Gemini API rate limit or quota was exceeded. Wait a minute and try again.',
+    auth: 'The Gemini API key is missing or invalid.',
+    network: 'Could not reach the Gemini API. Check your connection and try again.',
+    timeout: 'The Gemini API took too long to respond.',
+    parse: 'Gemini returned a response that could not be read.',
+    aborted: 'The request was cancelled.',
+    request: 'The Gemini API rejected the request.',
+};
+
+// Rate limits, server errors, dropped connections and timeouts are usually transient.
+const RETRYABLE_KINDS = new Set<GeminiErrorKind>(['quota', 'network', 'timeout']);
+
+export class GeminiError extends Error {
+    constructor(
+        public readonly kind: GeminiErrorKind,
+        message: string = ERROR_MESSAGES[kind],
+        public readonly status?: number,
+        public readonly cause?: unknown
+    ) {
+        super(message);
+        this.name = 'GeminiError';
+    }
+
+    get retryable(): boolean {
+        return RETRYABLE_KINDS.has(this.kind);
+    }
+}
+
+const isAbortError = (error: unknown) => error instanceof Error && error.name === 'AbortError';
+
+const toGeminiError = (error: unknown, timedOut: boolean): GeminiError => {
+    if (error instanceof GeminiError) return error;
+    if (timedOut) return new GeminiError('timeout', undefined, undefined, error);
+    if (isAbortError(error)) return new GeminiError('aborted', undefined, undefined, error);
+    if (error instanceof ApiError) {
+        if (error.status === 429) return new GeminiError('quota', undefined, error.status, error);
+        if (error.status === 401 || error.status === 403 || /api key/i.test(error.message)) {
+            return new GeminiError('auth', undefined, error.status, error);
+        }
+        if (error.status >= 500) {
+            return new GeminiError('network', 'The Gemini API is temporarily unavailable. Try again shortly.', error.status, error);
+        }
+        return new GeminiError('request', `${ERROR_MESSAGES.request} ${error.message}`, error.status, error);
+    }
+    // fetch rejects with a TypeError when the network request itself fails.
+    if (error instanceof TypeError) return new GeminiError('network', undefined, undefined, error);
+    return new GeminiError('request', error instanceof Error ? `${ERROR_MESSAGES.request} ${error.message}` : undefined, undefined, error);
+};
+
+// Resolves after `ms`, or rejects as soon as `signal` aborts.
+const waitFor = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(new GeminiError('aborted'));
+        return;
+    }
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(new GeminiError('aborted'));
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Exponential backoff with full jitter, so parallel callers don't retry in lockstep.
+const getBackoffMs = (attempt: number) => Math.random() * Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+
+export interface GeminiRequestOptions {
+    signal?: AbortSignal; // Cancels the request, including any pending retry
+    timeoutMs?: number; // Per attempt
+    maxRetries?: number;
+}
+
+/**
+ * The single entry point for Gemini `generateContent` calls. Each attempt is bounded by a timeout;
+ * rate limits (429), server errors (5xx), network failures and timeouts are retried with exponential
+ * backoff. Every failure is rethrown as a GeminiError whose `kind` says what went wrong.
+ */
+export const generateContent = async (
+    params: GenerateContentParameters,
+    { signal, timeoutMs = DEFAULT_TIMEOUT_MS, maxRetries = DEFAULT_MAX_RETRIES }: GeminiRequestOptions = {}
+): Promise<GenerateContentResponse> => {
+    for (let attempt = 0; ; attempt++) {
+        if (signal?.aborted) throw new GeminiError('aborted');
+
+        const controller = new AbortController();
+        const onAbort = () => controller.abort();
+        signal?.addEventListener('abort', onAbort, { once: true });
+        let timedOut = false;
+        const timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, timeoutMs);
+
+        try {
+            return await ai.models.generateContent({ ...params, config: { ...params.config, abortSignal: controller.signal } });
+        } catch (error) {
+            const geminiError = toGeminiError(error, timedOut);
+            if (!geminiError.retryable || attempt >= maxRetries) throw geminiError;
+            console.warn(`Gemini request failed (${geminiError.kind}), retrying (${attempt + 1}/${maxRetries}):`, error);
+        } finally {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
+        }
+
+        await waitFor(getBackoffMs(attempt), signal);
+    }
+};
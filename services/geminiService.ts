@@ -1,37 +1,108 @@
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
-import { Business, ScanResult, GroundingSource } from '../types';
+import { GenerateContentResponse, GroundingChunk, GroundingSupport } from "@google/genai";
+import { Business, BusinessProfile, ChatMessage, ScanResult, GroundingSource, RejectedCompetitor } from '../types';
+import { generateContent, GeminiError } from './geminiClient.ts';
+import { cachedRequest, getCacheKey, COMPETITOR_CACHE_TTL_MS, INSIGHT_CACHE_TTL_MS } from './geminiCache.ts';
+import { extractJsonArray, validateCompetitors, MAX_COMPETITOR_DISTANCE_KM } from './competitorValidation.ts';
+import { GridAnalysis, RankStats, WEAK_RANK_THRESHOLD, analyzeGrid, analyzeHeadToHead } from './gridAnalysis.ts';
+import { computeBusinessMetrics, sortBusinessMetrics } from './metricsService.ts';
+import { formatCitationMarker, stripCitationMarkers } from './markdown.ts';
+import { bearingDegrees, compassDirection, estimateGridSpacingKm, formatGridSpec, haversineDistanceKm, normalizeGridSpec } from './gridGeometry.ts';
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-// Helper to extract sources from a Gemini response
-const extractSources = (response: GenerateContentResponse): GroundingSource[] => {
+// Helper to extract sources from a Gemini response. Chunks often repeat a page, so sources are
+// de-duplicated by URI; `sourceIndexByChunk` maps each grounding chunk to its source.
+const extractGrounding = (response: GenerateContentResponse): { sources: GroundingSource[], sourceIndexByChunk: (number | undefined)[] } => {
     const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
-    if (!chunks) return [];
-    
-    return chunks
-        .map((chunk: any) => { // Use 'any' for chunk as type from SDK might be complex/internal
-            if (chunk.web && chunk.web.uri) {
-                return { uri: chunk.web.uri, title: chunk.web.title || '' };
-            }
-            if (chunk.maps && chunk.maps.uri) {
-                return { uri: chunk.maps.uri, title: chunk.maps.title || '' };
-            }
-            return null;
-        })
-        .filter((source): source is GroundingSource => source !== null);
+    if (!chunks) return { sources: [], sourceIndexByChunk: [] };
+
+    const sources: GroundingSource[] = [];
+    const sourceIndexByChunk = chunks.map((chunk: GroundingChunk) => {
+        const found = chunk.web?.uri ? chunk.web : chunk.maps?.uri ? chunk.maps : null;
+        if (!found) return undefined;
+        const existing = sources.findIndex(source => source.uri === found.uri);
+        if (existing !== -1) return existing;
+        sources.push({ uri: found.uri, title: found.title || '' });
+        return sources.length - 1;
+    });
+    return { sources, sourceIndexByChunk };
 };
 
-export async function getCompetitorList(location: Business, searchQuery: string): Promise<{ businesses: Business[], sources: GroundingSource[] }> {
-    const model = "gemini-2.5-flash";
-    const prompt = `List the top 5 competitors for the business "${location.name}" located at "${location.address}" for the search query "${searchQuery}". 
-    For each competitor, provide their name, full address, latitude, and longitude.
-    Format the output as a JSON array of objects. Each object should have these properties: "id" (use the Google Maps Place ID if available, otherwise a generated unique string based on the name and address), "name", "address", "latitude", and "longitude". 
-    Do not include any text, reasoning, or markdown formatting outside of the JSON array itself. The response should start with '[' and end with ']'.`;
+const extractSources = (response: GenerateContentResponse): GroundingSource[] => extractGrounding(response).sources;
+
+/**
+ * Appends a citation marker (see formatCitationMarker) after each grounded segment of `content`,
+ * naming the sources that support it. Segment offsets are UTF-8 byte offsets into the first part.
+ */
+const addCitationMarkers = (content: string, supports: GroundingSupport[], sourceIndexByChunk: (number | undefined)[]): string => {
+    const bytes = new TextEncoder().encode(content);
+    const decoder = new TextDecoder();
+    const insertions = new Map<number, Set<number>>(); // Character offset -> source indices
+
+    supports.forEach(support => {
+        const end = support.segment?.endIndex;
+        if (end === undefined || end > bytes.length || (support.segment?.partIndex ?? 0) !== 0) return;
+        const sourceIndices = (support.groundingChunkIndices ?? [])
+            .map(chunk => sourceIndexByChunk[chunk])
+            .filter((index): index is number => index !== undefined);
+        if (sourceIndices.length === 0) return;
 
-    try {
-        const response = await ai.models.generateContent({
+        // Keep the marker on the cited line rather than after its trailing whitespace.
+        let offset = decoder.decode(bytes.slice(0, end)).length;
+        while (offset > 0 && /\s/.test(content[offset - 1])) offset--;
+        const existing = insertions.get(offset) ?? new Set<number>();
+        sourceIndices.forEach(index => existing.add(index));
+        insertions.set(offset, existing);
+    });
+
+    return [...insertions.entries()]
+        .sort(([a], [b]) => b - a)
+        .reduce((text, [offset, sourceIndices]) => {
+            const markers = [...sourceIndices].sort((a, b) => a - b).map(formatCitationMarker).join('');
+            return text.slice(0, offset) + markers + text.slice(offset);
+        }, content);
+};
+
+// A grounded answer with citation markers, and the sources they number.
+const toCitedAnswer = (response: GenerateContentResponse, content: string): { content: string, sources: GroundingSource[] } => {
+    const { sources, sourceIndexByChunk } = extractGrounding(response);
+    const supports = response.candidates?.[0]?.groundingMetadata?.groundingSupports ?? [];
+    return { content: addCitationMarkers(content, supports, sourceIndexByChunk), sources };
+};
+
+// Discovery is retried when validation leaves fewer than this many competitors.
+const MIN_VALID_COMPETITORS = 3;
+const MAX_COMPETITOR_ATTEMPTS = 2;
+
+export interface CompetitorDiscoveryOptions {
+    count?: number; // How many competitors to ask for
+    maxDistanceKm?: number;
+    exclude?: Business[]; // Pinned or excluded competitors that discovery should not return
+    refreshedAfter?: number; // Cached discoveries older than this (ms) are ignored
+    signal?: AbortSignal;
+}
+
+// Runs discovery with up to MAX_COMPETITOR_ATTEMPTS grounded requests, validating each answer.
+async function discoverCompetitors(
+    model: string,
+    prompt: string,
+    location: Business,
+    count: number,
+    maxDistanceKm: number,
+    exclude: Business[],
+    signal?: AbortSignal
+): Promise<{ businesses: Business[], sources: GroundingSource[], rejected: RejectedCompetitor[] }> {
+    let businesses: Business[] = [];
+    let sources: GroundingSource[] = [];
+    let rejected: RejectedCompetitor[] = [];
+    let feedback = '';
+    let unreadable = false;
+
+    // Grounded (Maps) requests can't use a response schema, so the output is validated here instead,
+    // and a retry tells the model what was wrong with its previous answer. Request failures (quota,
+    // auth, network) are already retried by the client and are thrown rather than reported as rejections.
+    for (let attempt = 1; attempt <= MAX_COMPETITOR_ATTEMPTS; attempt++) {
+        const response = await generateContent({
             model: model,
-            contents: prompt,
+            contents: prompt + feedback,
             config: {
                 tools: [{ googleMaps: {} }],
                 toolConfig: {
@@ -43,58 +114,154 @@ export async function getCompetitorList(location: Business, searchQuery: string)
                     }
                 },
             }
-        });
+        }, { signal });
 
-        const sources = extractSources(response);
-        let businesses: Business[] = [];
-        
-        const textResponse = response.text.trim();
-        // Try to find a JSON array in the response text
-        const jsonMatch = textResponse.match(/(\[[\s\S]*\])/);
-        
-        if (jsonMatch && jsonMatch[1]) {
-            try {
-                businesses = JSON.parse(jsonMatch[1]);
-            } catch (parseError) {
-                console.error("Failed to parse JSON from Gemini response:", parseError, textResponse);
-                return { businesses: [], sources };
-            }
+        sources = [...sources, ...extractSources(response).filter(s => !sources.some(existing => existing.uri === s.uri))];
+        const textResponse = (response.text ?? '').trim();
+        const raw = extractJsonArray(textResponse);
+        unreadable = !raw;
+        if (!raw) {
+            console.warn("No JSON array found in competitor list response:", textResponse);
+            rejected = [{ name: `Attempt ${attempt}`, reason: 'The response did not contain a JSON array.' }];
         } else {
-             console.warn("No JSON array found in competitor list response:", textResponse);
+            // Earlier valid competitors count as already seen, so a retry only adds new ones.
+            const validation = validateCompetitors(raw, location, maxDistanceKm, [...exclude, ...businesses]);
+            businesses = [...businesses, ...validation.businesses];
+            rejected = validation.rejected;
         }
 
-        return { businesses, sources };
+        if (businesses.length >= Math.min(MIN_VALID_COMPETITORS, count) || rejected.length === 0) break;
+        feedback = `\n\n    Your previous answer had these problems: ${rejected.map(r => `${r.name}: ${r.reason}`).join('; ')}. Fix them and return only the JSON array.`;
+    }
 
-    } catch (error) {
-        console.error("Error fetching competitor list from Gemini:", error);
-        return { businesses: [], sources: [] }; // Return empty on API error
+    // A scan against zero competitors would look successful but mean nothing.
+    if (businesses.length === 0) {
+        throw new GeminiError('parse', unreadable
+            ? 'Gemini did not return a readable competitor list. Try the scan again.'
+            : `Gemini found no competitors that passed validation${rejected.length > 0 ? ` (${rejected.map(r => `${r.name}: ${r.reason}`).join('; ')})` : ''}. Try the scan again.`);
     }
+    return { businesses: businesses.slice(0, count), sources, rejected };
+}
+
+export async function getCompetitorList(
+    location: Business,
+    searchQuery: string,
+    { count = 5, maxDistanceKm = MAX_COMPETITOR_DISTANCE_KM, exclude = [], refreshedAfter, signal }: CompetitorDiscoveryOptions = {}
+): Promise<{ businesses: Business[], sources: GroundingSource[], rejected: RejectedCompetitor[] }> {
+    const model = "gemini-2.5-flash";
+    const exclusions = exclude.length > 0 ? `\n    Do not include any of these businesses: ${exclude.map(b => `"${b.name}"`).join(', ')}.` : '';
+    const prompt = `List the top ${count} competitors for the business "${location.name}" located at "${location.address}" for the search query "${searchQuery}". 
+    For each competitor, provide their name, full address, latitude, and longitude.
+    Format the output as a JSON array of objects. Each object should have these properties: "id" (use the Google Maps Place ID if available, otherwise a generated unique string based on the name and address), "name", "address", "latitude", and "longitude". 
+    "latitude" and "longitude" must be numbers. Do not include "${location.name}" itself, and do not list the same business twice.${exclusions}
+    Do not include any text, reasoning, or markdown formatting outside of the JSON array itself. The response should start with '[' and end with ']'.`;
+
+    // A discovery that found no valid competitor throws, so it isn't cached and is retried next time.
+    return cachedRequest(
+        getCacheKey(model, `${prompt}|${maxDistanceKm}`, location.id),
+        sharedSignal => discoverCompetitors(model, prompt, location, count, maxDistanceKm, exclude, sharedSignal),
+        { ttlMs: COMPETITOR_CACHE_TTL_MS, notBefore: refreshedAfter, signal }
+    );
 }
 
-// A helper for insight generation functions
-async function generateInsight(prompt: string): Promise<{ content: string, sources: GroundingSource[] }> {
-    try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-pro", // Use Pro for better analysis
+const toRating = (value: unknown): number | undefined => {
+    const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    return typeof number === 'number' && number >= 1 && number <= 5 ? number : undefined;
+};
+
+const toReviewCount = (value: unknown): number | undefined => {
+    const number = typeof value === 'string' ? Number(value.replace(/[,\s]/g, '')) : value;
+    return typeof number === 'number' && Number.isInteger(number) && number >= 0 ? number : undefined;
+};
+
+/**
+ * Looks up each business's rating, review count and categories with Google Maps grounding.
+ * Businesses the model can't find, or answers with no usable facts, are left out of the result.
+ */
+export async function getBusinessProfiles(location: Business, businesses: Business[], signal?: AbortSignal): Promise<Record<string, BusinessProfile>> {
+    if (businesses.length === 0) return {};
+    const model = "gemini-2.5-flash";
+    const prompt = `Look up the Google Business Profile of each of these businesses:
+    ${businesses.map(b => `- id "${b.id}": "${b.name}", ${b.address}`).join('\n    ')}
+    For each one, give its average star rating, its total number of Google reviews and its Google Business Profile categories (primary category first).
+    Format the output as a JSON array of objects with these properties: "id" (exactly as given above), "rating" (a number), "reviewCount" (an integer) and "categories" (an array of strings).
+    Use null for anything you cannot find. Do not include any text or markdown formatting outside of the JSON array itself.`;
+
+    return cachedRequest(getCacheKey(model, prompt, location.id), async sharedSignal => {
+        const response = await generateContent({
+            model: model,
             contents: prompt,
             config: {
-                tools: [{ googleSearch: {} }],
+                tools: [{ googleMaps: {} }],
+                toolConfig: { retrievalConfig: { latLng: { latitude: location.latitude, longitude: location.longitude } } },
             }
+        }, { signal: sharedSignal });
+
+        const raw = extractJsonArray((response.text ?? '').trim());
+        if (!raw) throw new GeminiError('parse', 'Gemini did not return readable business profiles.');
+        const known = new Set(businesses.map(b => b.id));
+        const profiles: Record<string, BusinessProfile> = {};
+        raw.forEach(entry => {
+            if (!entry || typeof entry !== 'object') return;
+            const { id, rating, reviewCount, categories } = entry as Record<string, unknown>;
+            if (typeof id !== 'string' || !known.has(id)) return;
+            const profile: BusinessProfile = {
+                rating: toRating(rating),
+                reviewCount: toReviewCount(reviewCount),
+                categories: Array.isArray(categories) ? categories.filter((c): c is string => typeof c === 'string' && c.trim() !== '') : undefined,
+                source: 'grounding',
+            };
+            if (profile.rating !== undefined || profile.reviewCount !== undefined || profile.categories?.length) profiles[id] = profile;
         });
-        return {
-            content: response.text,
-            sources: extractSources(response)
-        };
-    } catch (error) {
-        console.error("Error generating insight from Gemini:", error);
-        if (error instanceof Error) {
-            throw new Error(`Gemini API Error: ${error.message}`);
-        }
-        throw new Error("An unknown error occurred while fetching insights.");
-    }
+        return profiles;
+    }, { ttlMs: COMPETITOR_CACHE_TTL_MS, shouldCache: profiles => Object.keys(profiles).length > 0, signal });
+}
+
+// Grounded Pro analysis is slower than discovery, so insights get a longer per-attempt timeout.
+const INSIGHT_TIMEOUT_MS = 120_000;
+
+// A helper for insight generation functions. Identical prompts for the same business are served from the cache.
+async function generateInsight(prompt: string, location: Business, signal?: AbortSignal): Promise<{ content: string, sources: GroundingSource[] }> {
+    const model = "gemini-2.5-pro"; // Use Pro for better analysis
+    return cachedRequest(getCacheKey(model, prompt, location.id), async sharedSignal => {
+        const response = await generateContent({
+            model: model,
+            contents: prompt,
+            config: {
+                tools: [{ googleSearch: {} }],
+            }
+        }, { signal: sharedSignal, timeoutMs: INSIGHT_TIMEOUT_MS });
+        const content = response.text ?? '';
+        if (!content.trim()) throw new GeminiError('parse', 'Gemini returned an empty analysis. Try again.');
+        return toCitedAnswer(response, content);
+    }, { ttlMs: INSIGHT_CACHE_TTL_MS, signal });
 }
 
-export function getRankingInsights(location: Business, searchQuery: string, scanResult: ScanResult): Promise<{ content: string, sources: GroundingSource[] }> {
+const formatRankStats = (stats: RankStats) =>
+    `avg rank ${stats.averageRank.toFixed(1)}, top 3 at ${stats.top3Share.toFixed(0)}%, rank ${WEAK_RANK_THRESHOLD}+ at ${stats.weakShare.toFixed(0)}% (${stats.pointCount} points)`;
+
+// The grid analysis as plain-text lines for the ranking prompt.
+const describeGridAnalysis = (analysis: GridAnalysis): string => {
+    const lines = [`Ranked points: ${analysis.rankedPoints}${analysis.failedPoints > 0 ? ` (${analysis.failedPoints} more could not be checked)` : ''}`];
+    if (analysis.centre) lines.push(`At the business itself: ${formatRankStats(analysis.centre)}`);
+    lines.push('', 'By direction from the business:');
+    analysis.sectors.forEach(sector => lines.push(`- ${sector.direction}: ${formatRankStats(sector)}`));
+    lines.push('', 'By distance from the business:');
+    analysis.rings.forEach(ring => lines.push(`- ${ring.minKm.toFixed(1)}-${ring.maxKm.toFixed(1)} km: ${formatRankStats(ring)}`));
+    lines.push('', `Weak zones (connected areas ranked ${WEAK_RANK_THRESHOLD} or worse):`);
+    if (analysis.weakZones.length === 0) lines.push('- None');
+    analysis.weakZones.forEach((zone, i) => {
+        const where = zone.direction ? `${zone.distanceKm.toFixed(1)} km ${zone.direction} of the business` : 'around the business';
+        const competitors = zone.dominantCompetitors
+            .map(c => `${c.business.name} (avg rank ${c.averageRank.toFixed(1)}, top 3 at ${c.top3Count} of ${zone.pointIds.length} points)`)
+            .join('; ');
+        lines.push(`- Zone ${i + 1}: ${zone.pointIds.length} points centred ${where}, avg rank ${zone.averageRank.toFixed(1)}. Dominated by: ${competitors || 'no competitor data'}`);
+    });
+    if (analysis.isolatedWeakPoints > 0) lines.push(`- Plus ${analysis.isolatedWeakPoints} isolated weak point(s)`);
+    return lines.join('\n');
+};
+
+export function getRankingInsights(location: Business, searchQuery: string, scanResult: ScanResult, signal?: AbortSignal): Promise<{ content: string, sources: GroundingSource[] }> {
     const prompt = `
         As a local SEO expert, analyze the following local search ranking scan results for the business "${location.name}" (a ${searchQuery}) and provide actionable insights.
         
@@ -103,39 +270,162 @@ export function getRankingInsights(location: Business, searchQuery: string, scan
         - In Top 3: ${scanResult.summary.top3.toFixed(0)}% of locations
         - In Top 10: ${scanResult.summary.top10.toFixed(0)}% of locations
 
-        **Key Observations from Ranking Data:**
-        The data shows how the business ranks at different points in a grid. A lower rank number is better.
-        A rank of 21+ means not in the top 20. The business's own location is at lat ${location.latitude.toFixed(4)}, lng ${location.longitude.toFixed(4)}.
-        Here is a sample of ranking data points:
-        ${scanResult.rankings.slice(0, 20).map(p => `- At point (${p.lat.toFixed(4)}, ${p.lng.toFixed(4)}), rank is ${p.rank > 20 ? '20+' : p.rank}`).join('\n')}
+        **Grid Analysis:**
+        The business was ranked at every point of a grid around it. A lower rank number is better; a rank of 21 means not in the top 20.
+        The business's own location is at lat ${location.latitude.toFixed(4)}, lng ${location.longitude.toFixed(4)}. This summary covers the whole grid:
+        ${describeGridAnalysis(analyzeGrid(scanResult, location))}
 
         **Your Task:**
-        Based on this data, provide 3-4 concise, actionable insights to improve local rankings for "${location.name}". Focus on what the data suggests. For example, if rankings are weak in a certain direction, suggest targeted local content. If average rank is high, suggest foundational improvements. Format your response using markdown. Use headings for each insight.
+        Based on this data, provide 3-4 concise, actionable insights to improve local rankings for "${location.name}". Ground each insight in the analysis: name the directions, distances and weak zones it addresses and the competitors that dominate them. For example, if rankings are weak in a certain direction, suggest targeted local content for that area. If average rank is high everywhere, suggest foundational improvements. Format your response using markdown. Use headings for each insight.
     `;
-    return generateInsight(prompt);
+    return generateInsight(prompt, location, signal);
 }
 
-export function getCompetitorGapAnalysis(location: Business, searchQuery: string): Promise<{ content: string, sources: GroundingSource[] }> {
+// How many leaderboard competitors the competitor and review prompts describe.
+const LANDSCAPE_SIZE = 8;
+
+const getLandscapeMetrics = (location: Business, scanResult: ScanResult) =>
+    sortBusinessMetrics(computeBusinessMetrics(scanResult, location), 'visibilityShare', false).filter(m => !m.isTarget).slice(0, LANDSCAPE_SIZE);
+
+// The competitors the competitor and review analyses compare the target with, to look up profiles for.
+export const getLandscapeCompetitors = (location: Business, scanResult: ScanResult): Business[] =>
+    getLandscapeMetrics(location, scanResult).map(m => m.business);
+
+const formatProfile = (profile: BusinessProfile | undefined): string => {
+    if (!profile) return 'profile not found';
+    const parts = [
+        profile.rating !== undefined ? `rating ${profile.rating.toFixed(1)}` : 'rating unknown',
+        profile.reviewCount !== undefined ? `${profile.reviewCount} reviews` : 'review count unknown',
+    ];
+    if (profile.categories?.length) parts.push(`categories: ${profile.categories.join(', ')}`);
+    return parts.join(', ');
+};
+
+/**
+ * The scan's competitive picture as plain-text lines: the target, then the leaderboard with each
+ * competitor's grid metrics, where it beats the target head-to-head, and its profile facts when given.
+ */
+const describeCompetitorLandscape = (location: Business, scanResult: ScanResult, profiles?: Record<string, BusinessProfile>): string => {
+    const targetMetrics = computeBusinessMetrics(scanResult, location).find(m => m.isTarget);
+    const headToHead = new Map(analyzeHeadToHead(scanResult, location).map(h => [h.business.id, h]));
+
+    const lines = [
+        `Target: ${location.name}.${profiles ? ` ${formatProfile(profiles[location.id])}.` : ''} Average rank ${scanResult.summary.averageRank.toFixed(1)}, top 3 at ${scanResult.summary.top3.toFixed(0)}% of grid points, visibility share ${(targetMetrics?.visibilityShare ?? 0).toFixed(1)}%.`,
+        '',
+        'Competitor leaderboard (by share of grid visibility):',
+    ];
+    getLandscapeMetrics(location, scanResult).forEach((m, i) => {
+        const h2h = headToHead.get(m.business.id);
+        const outranks = h2h
+            ? `outranks the target at ${h2h.outrankedPoints} points (${h2h.outrankedShare.toFixed(0)}%)${h2h.directions.length > 0 ? `, mostly ${h2h.directions.join(' and ')} of it` : ''}`
+            : 'never outranks the target';
+        lines.push(`${i + 1}. ${m.business.name} (${m.business.address}): visibility ${m.visibilityShare.toFixed(1)}%, top 3 at ${m.top3Presence.toFixed(0)}% of points, avg rank ${m.averageRank !== null ? m.averageRank.toFixed(1) : 'n/a'} where it appears${m.bestAreaLabel ? `, strongest ${m.bestAreaLabel}` : ''}; ${outranks}.${profiles ? ` Profile: ${formatProfile(profiles[m.business.id])}.` : ''}`);
+    });
+    return lines.join('\n');
+};
+
+export function getCompetitorGapAnalysis(location: Business, searchQuery: string, scanResult: ScanResult, profiles: Record<string, BusinessProfile>, signal?: AbortSignal): Promise<{ content: string, sources: GroundingSource[] }> {
     const prompt = `
-        As a local SEO expert, perform a high-level competitor gap analysis for "${location.name}" which is a "${searchQuery}".
-        Using Google Search, identify common strategies that top-ranking businesses in the "${searchQuery}" category use for their Google Business Profile and local SEO.
-        
-        Provide a brief analysis covering 2-3 key areas where "${location.name}" could likely improve. Frame these as actionable recommendations. Example areas include:
-        - Google Business Profile optimization (e.g., categories, services, photos, Q&A).
-        - Local content strategy for their website (e.g., location-specific pages).
-        - Local link building opportunities (e.g., community sponsorships).
+        As a local SEO expert, perform a competitor gap analysis for "${location.name}" which is a "${searchQuery}", using its local ranking scan below.
+
+        **Scan Data:**
+        ${describeCompetitorLandscape(location, scanResult, profiles)}
 
-        Keep the advice actionable and specific to the "${searchQuery}" industry. Format your response using markdown with headings.
+        **Your Task:**
+        Compare "${location.name}" head-to-head with the named competitors that outrank it most, starting with the strongest. For each, use the profile facts above and Google Search to explain the likely reasons it wins where it does (for example categories, review volume and rating, proximity to the areas it wins, website and local content).
+        Then give 2-3 prioritised, actionable recommendations that close the biggest gaps, naming the competitor and the area of the grid each one targets. Do not give generic industry advice that ignores these competitors. Format your response using markdown with headings.
     `;
-    return generateInsight(prompt);
+    return generateInsight(prompt, location, signal);
 }
 
-export function getReviewVolumeAnalysis(location: Business, searchQuery: string): Promise<{ content: string, sources: GroundingSource[] }> {
+export function getReviewVolumeAnalysis(location: Business, searchQuery: string, scanResult: ScanResult, profiles: Record<string, BusinessProfile>, signal?: AbortSignal): Promise<{ content: string, sources: GroundingSource[] }> {
     const prompt = `
-        As a local SEO expert, explain the importance of Google reviews for a local business like "${location.name}" in the "${searchQuery}" industry.
-        Using Google Search, find general best practices for acquiring and managing customer reviews on a Google Business Profile.
+        As a local SEO expert, analyse how Google reviews affect the local rankings of "${location.name}" in the "${searchQuery}" industry, using its local ranking scan below.
+
+        **Scan Data:**
+        ${describeCompetitorLandscape(location, scanResult, profiles)}
 
-        Provide 2-3 concise, actionable tips for improving both the quantity and quality of their Google reviews. Emphasize ethical, customer-friendly strategies. Format your response using markdown with headings.
+        **Your Task:**
+        Compare the rating and review count of "${location.name}" with each named competitor that outranks it, and quantify the gap (for example how many reviews it would need to match the median of the businesses that outrank it). Where a profile fact is unknown, say so rather than guessing, or look it up with Google Search.
+        Then give 2-3 concise, actionable tips for closing that gap in both the quantity and quality of reviews, with realistic targets. Emphasize ethical, customer-friendly strategies. Format your response using markdown with headings.
     `;
-    return generateInsight(prompt);
+    return generateInsight(prompt, location, signal);
+}
+
+/**
+ * A compact text version of a scan for the assistant: the summary, the grid analysis, the
+ * competitor leaderboard and one line per grid point with its direction and distance from the
+ * business, the target's rank and the top 3 there (competitors by code, "YOU" for the target).
+ */
+const serializeScanForChat = (location: Business, searchQuery: string, scanResult: ScanResult): string => {
+    const origin = { lat: location.latitude, lng: location.longitude };
+    const centreRadiusKm = estimateGridSpacingKm(scanResult.rankings) / 2;
+    const codes = new Map(sortBusinessMetrics(computeBusinessMetrics(scanResult, location), 'visibilityShare', false)
+        .filter(m => !m.isTarget)
+        .map((m, i) => [m.business.id, { code: `C${i + 1}`, name: m.business.name }]));
+    const codeFor = (id: string) => (id === location.id ? 'YOU' : codes.get(id)?.code ?? '?');
+
+    const pointLines = scanResult.rankings.map(point => {
+        const distanceKm = haversineDistanceKm(origin, point);
+        const where = distanceKm < centreRadiusKm ? 'centre' : `${distanceKm.toFixed(1)}km ${compassDirection(bearingDegrees(origin, point))}`;
+        if (point.error) return `#${point.id} ${where}: rank unknown`;
+        const top3 = [...point.competitorRanks].sort((a, b) => a.rank - b.rank).slice(0, 3).map(c => codeFor(c.business.id));
+        return `#${point.id} ${where}: rank ${point.rank > 20 ? '20+' : point.rank}; top 3 ${top3.join(', ') || 'none'}`;
+    });
+
+    return [
+        `Business: ${location.name}, ${location.address}`,
+        `Keyword: ${searchQuery}`,
+        `Grid: ${formatGridSpec(normalizeGridSpec(scanResult.gridSize))}`,
+        `Summary: average rank ${scanResult.summary.averageRank.toFixed(1)}, top 3 at ${scanResult.summary.top3.toFixed(0)}% of points, top 10 at ${scanResult.summary.top10.toFixed(0)}%`,
+        '',
+        describeGridAnalysis(analyzeGrid(scanResult, location)),
+        '',
+        describeCompetitorLandscape(location, scanResult),
+        '',
+        `Competitor codes: ${[...codes.values()].map(c => `${c.code} = ${c.name}`).join('; ')}`,
+        'Grid points (id, direction and distance from the business, its rank, top 3):',
+        ...pointLines,
+    ].join('\n');
+};
+
+// Flash keeps the conversation responsive; the scan itself is in the system instruction.
+const CHAT_MODEL = "gemini-2.5-flash";
+
+/**
+ * Answers a question about a scan as the next turn of a conversation. Each call replays the saved
+ * conversation as multi-turn contents, so a conversation reopened from history continues where it
+ * stopped. The scan is serialized into the system instruction, and answers are grounded with
+ * Google Search and carry the same numbered citations as insights.
+ */
+export async function askAboutScan(
+    location: Business,
+    searchQuery: string,
+    scanResult: ScanResult,
+    history: ChatMessage[],
+    question: string,
+    signal?: AbortSignal
+): Promise<{ content: string, sources: GroundingSource[] }> {
+    const systemInstruction = `You are a local SEO strategist answering questions about a local search ranking scan for "${location.name}".
+A lower rank is better; "20+" means not in the top 20. Base your answers on the scan data below, and use Google Search for anything it doesn't cover.
+Refer to grid points by id (e.g. #12) and to areas by direction and distance from the business. Name the competitors involved, never their codes.
+If the data can't answer a question, say so. Keep answers concise and format them using markdown.
+
+${serializeScanForChat(location, searchQuery, scanResult)}`;
+
+    const response = await generateContent({
+        model: CHAT_MODEL,
+        contents: [
+            ...history.map(message => ({ role: message.role, parts: [{ text: stripCitationMarkers(message.content) }] })),
+            { role: 'user', parts: [{ text: question }] },
+        ],
+        config: {
+            systemInstruction,
+            tools: [{ googleSearch: {} }],
+        }
+    }, { signal, timeoutMs: INSIGHT_TIMEOUT_MS });
+
+    const content = response.text ?? '';
+    if (!content.trim()) throw new GeminiError('parse', 'Gemini returned an empty answer. Try asking again.');
+    return toCitedAnswer(response, content);
 }
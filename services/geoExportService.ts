@@ -0,0 +1,173 @@
+import { RankingPoint, ScanResult, ScanSettings } from '../types';
+import { LatLngLiteral, destinationPoint, estimateGridSpacingKm } from './gridGeometry.ts';
+import { getPointColor, formatPointRank } from './scanUtils.ts';
+import { escapeHtml } from './escape.ts';
+
+export type CellGeometry = 'none' | 'square' | 'voronoi';
+
+export const CELL_GEOMETRY_LABELS: Record<CellGeometry, string> = {
+    none: 'Points only',
+    square: 'Square cells',
+    voronoi: 'Voronoi cells',
+};
+
+// [lng, lat] positions, closed (first === last) and counter-clockwise, as RFC 7946 requires of exterior rings.
+type Ring = [number, number][];
+
+// Square of one grid spacing centred on the point. Exact for square grids; hex grids are better served by Voronoi.
+const squareCell = (point: LatLngLiteral, spacingKm: number): Ring => {
+    const halfDiagonal = (spacingKm / 2) * Math.SQRT2;
+    const corners = [225, 135, 45, 315].map(bearing => destinationPoint(point, bearing, halfDiagonal));
+    const ring: Ring = corners.map(c => [c.lng, c.lat]);
+    return [...ring, ring[0]];
+};
+
+// Keeps the part of a convex polygon on the `site` side of the perpendicular bisector between site and other.
+const clipToBisector = (polygon: [number, number][], site: [number, number], other: [number, number]): [number, number][] => {
+    const [nx, ny] = [other[0] - site[0], other[1] - site[1]];
+    const mid = (nx * (site[0] + other[0]) + ny * (site[1] + other[1])) / 2;
+    const side = (p: [number, number]) => nx * p[0] + ny * p[1] - mid; // <= 0 is the site's side
+
+    const result: [number, number][] = [];
+    for (let i = 0; i < polygon.length; i++) {
+        const a = polygon[i];
+        const b = polygon[(i + 1) % polygon.length];
+        const sa = side(a);
+        const sb = side(b);
+        if (sa <= 0) result.push(a);
+        if ((sa < 0 && sb > 0) || (sa > 0 && sb < 0)) {
+            const t = sa / (sa - sb);
+            result.push([a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t]);
+        }
+    }
+    return result;
+};
+
+/**
+ * Voronoi cells for every point, clipped to the grid's bounding box padded by half a spacing.
+ * Computed in a local equirectangular projection, which is accurate at grid scale.
+ */
+const voronoiCells = (points: RankingPoint[], spacingKm: number): Ring[] => {
+    const midLat = points.reduce((sum, p) => sum + p.lat, 0) / points.length;
+    const lngScale = Math.cos(midLat * Math.PI / 180);
+    const toPlane = (p: LatLngLiteral): [number, number] => [p.lng * lngScale, p.lat];
+    const toLngLat = ([x, y]: [number, number]): [number, number] => [x / lngScale, y];
+
+    const sites = points.map(toPlane);
+    const pad = spacingKm / 2 / 111.32; // Roughly km to degrees of latitude
+    const minX = Math.min(...sites.map(s => s[0])) - pad;
+    const maxX = Math.max(...sites.map(s => s[0])) + pad;
+    const minY = Math.min(...sites.map(s => s[1])) - pad;
+    const maxY = Math.max(...sites.map(s => s[1])) + pad;
+    // Counter-clockwise; clipping keeps the winding, so every cell is counter-clockwise too.
+    const bounds: [number, number][] = [[minX, minY], [maxX, minY], [maxX, maxY], [minX, maxY]];
+
+    return sites.map((site, i) => {
+        let cell = bounds;
+        for (let j = 0; j < sites.length && cell.length > 0; j++) {
+            if (j !== i) cell = clipToBisector(cell, site, sites[j]);
+        }
+        const ring: Ring = cell.map(toLngLat);
+        return ring.length > 0 ? [...ring, ring[0]] : ring;
+    });
+};
+
+const buildCells = (result: ScanResult, cells: CellGeometry): (Ring | null)[] => {
+    if (cells === 'none' || result.rankings.length === 0) return result.rankings.map(() => null);
+    const spacingKm = estimateGridSpacingKm(result.rankings);
+    return cells === 'voronoi'
+        ? voronoiCells(result.rankings, spacingKm)
+        : result.rankings.map(point => squareCell(point, spacingKm));
+};
+
+const getTopCompetitor = (point: RankingPoint) => point.competitorRanks.find(c => c.rank === 1)?.business ?? null;
+
+/**
+ * Exports the grid as a GeoJSON FeatureCollection with one feature per point. With cells enabled,
+ * each feature's geometry is the point's cell so GIS tools can render a choropleth; the point's
+ * own position is always kept in the `lat`/`lng` properties.
+ */
+export const buildGeoJson = (result: ScanResult, settings: ScanSettings, cells: CellGeometry = 'none'): string => {
+    const cellRings = buildCells(result, cells);
+    const features = result.rankings.map((point, i) => {
+        const top = getTopCompetitor(point);
+        const ring = cellRings[i];
+        return {
+            type: 'Feature',
+            id: point.id,
+            geometry: ring
+                ? { type: 'Polygon', coordinates: [ring] }
+                : { type: 'Point', coordinates: [point.lng, point.lat] },
+            properties: {
+                pointId: point.id,
+                lat: point.lat,
+                lng: point.lng,
+                rank: point.error ? null : point.rank,
+                rankLabel: point.error ? 'unknown' : formatPointRank(point),
+                color: getPointColor(point),
+                error: point.error ?? null,
+                topCompetitor: top?.name ?? null,
+                topCompetitorId: top?.id ?? null,
+                competitorRanks: point.competitorRanks.map(({ rank, business }) => ({ rank, id: business.id, name: business.name })),
+            },
+        };
+    });
+
+    return JSON.stringify({
+        type: 'FeatureCollection',
+        properties: {
+            business: settings.location?.name ?? null,
+            keyword: result.keyword ?? settings.searchQuery,
+            averageRank: result.summary.averageRank,
+        },
+        features,
+    }, null, 2);
+};
+
+// KML colours are aabbggrr.
+const toKmlColor = (hex: string, alpha: string): string => {
+    const [r, g, b] = [hex.slice(1, 3), hex.slice(3, 5), hex.slice(5, 7)];
+    return `${alpha}${b}${g}${r}`;
+};
+
+/** Exports the grid as KML for Google Earth, one rank-coloured placemark (and optional cell) per point. */
+export const buildKml = (result: ScanResult, settings: ScanSettings, cells: CellGeometry = 'none'): string => {
+    const cellRings = buildCells(result, cells);
+    const keyword = result.keyword ?? settings.searchQuery;
+    const colors = [...new Set(result.rankings.map(getPointColor))];
+    const styles = colors.map(color => `
+    <Style id="rank-${color.slice(1)}">
+        <IconStyle><color>${toKmlColor(color, 'ff')}</color><Icon><href>http://maps.google.com/mapfiles/kml/shapes/placemark_circle.png</href></Icon></IconStyle>
+        <LineStyle><color>${toKmlColor(color, 'ff')}</color><width>1</width></LineStyle>
+        <PolyStyle><color>${toKmlColor(color, '99')}</color></PolyStyle>
+    </Style>`).join('');
+
+    const placemarks = result.rankings.map((point, i) => {
+        const top = getTopCompetitor(point);
+        const ring = cellRings[i];
+        const pointKml = `<Point><coordinates>${point.lng},${point.lat},0</coordinates></Point>`;
+        const geometry = ring
+            ? `<MultiGeometry>${pointKml}<Polygon><outerBoundaryIs><LinearRing><coordinates>${ring.map(([lng, lat]) => `${lng},${lat},0`).join(' ')}</coordinates></LinearRing></outerBoundaryIs></Polygon></MultiGeometry>`
+            : pointKml;
+        const ranks = point.competitorRanks.map(({ rank, business }) => `<li>${rank}. ${escapeHtml(business.name)}</li>`).join('');
+        return `
+    <Placemark>
+        <name>${formatPointRank(point)}</name>
+        <styleUrl>#rank-${getPointColor(point).slice(1)}</styleUrl>
+        <ExtendedData>
+            <Data name="pointId"><value>${point.id}</value></Data>
+            <Data name="rank"><value>${point.error ? 'unknown' : point.rank}</value></Data>
+            <Data name="topCompetitor"><value>${escapeHtml(top?.name ?? '')}</value></Data>
+        </ExtendedData>
+        <description><![CDATA[<ol>${ranks}</ol>]]></description>
+        ${geometry}
+    </Placemark>`;
+    }).join('');
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+<Document>
+    <name>${escapeHtml(`${settings.location?.name ?? 'Scan'} - "${keyword}"`)}</name>${styles}${placemarks}
+</Document>
+</kml>`;
+};
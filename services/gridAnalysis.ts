@@ -0,0 +1,227 @@
+import { Business, RankedPoint, RankingPoint, ScanResult } from '../types';
+import { LatLngLiteral, bearingDegrees, compassDirection, estimateGridSpacingKm, haversineDistanceKm } from './gridGeometry.ts';
+import { positionWeight } from './metricsService.ts';
+import { getRankedPoints } from './scanUtils.ts';
+
+// Points ranked 11 or worse (off the first page of results) count as weak.
+export const WEAK_RANK_THRESHOLD = 11;
+const RING_COUNT = 3;
+const MIN_ZONE_POINTS = 2; // Single weak points are counted, not reported as zones
+const ZONE_COMPETITOR_COUNT = 3;
+// Diagonal neighbours sit √2 grid spacings apart; allow a little more for projection error.
+const NEIGHBOUR_SPACING_FACTOR = 1.5;
+const HEAD_TO_HEAD_DIRECTIONS = 2;
+const COMPASS_ORDER = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+export interface RankStats {
+    pointCount: number;
+    averageRank: number; // Ranks past 20 count as 21, as in the scan summary
+    top3Share: number; // % of points
+    weakShare: number; // % of points ranked WEAK_RANK_THRESHOLD or worse
+}
+
+export interface SectorStats extends RankStats {
+    direction: string; // 8-point compass label relative to the business
+}
+
+export interface RingStats extends RankStats {
+    minKm: number;
+    maxKm: number;
+}
+
+export interface ZoneCompetitor {
+    business: Business;
+    top3Count: number; // Zone points where it ranks 1-3
+    averageRank: number; // Over the zone points where it appears
+}
+
+export interface WeakZone {
+    pointIds: number[];
+    averageRank: number;
+    centroid: LatLngLiteral;
+    distanceKm: number; // From the business to the zone's centroid
+    direction: string | null; // Null when the zone is centred on the business
+    dominantCompetitors: ZoneCompetitor[];
+}
+
+export interface GridAnalysis {
+    rankedPoints: number;
+    failedPoints: number;
+    centre: RankStats | null; // Points at the business itself, which belong to no sector
+    sectors: SectorStats[]; // Compass order, only sectors with points
+    rings: RingStats[]; // Innermost first
+    weakZones: WeakZone[]; // Largest first
+    isolatedWeakPoints: number; // Weak points with no weak neighbour
+}
+
+export interface HeadToHead {
+    business: Business;
+    outrankedPoints: number; // Points where the competitor ranks above the target
+    outrankedShare: number; // % of ranked points
+    directions: string[]; // Compass sectors where it outranks the target most often, most first
+}
+
+const cappedRank = (rank: number) => (rank > 20 ? 21 : rank);
+
+const computeRankStats = (points: RankedPoint[]): RankStats => {
+    const count = points.length;
+    const share = (predicate: (p: RankedPoint) => boolean) => (count > 0 ? (points.filter(predicate).length / count) * 100 : 0);
+    return {
+        pointCount: count,
+        averageRank: count > 0 ? points.reduce((sum, p) => sum + cappedRank(p.rank), 0) / count : 0,
+        top3Share: share(p => p.rank <= 3),
+        weakShare: share(p => p.rank >= WEAK_RANK_THRESHOLD),
+    };
+};
+
+// Competitors that outrank the business across a zone, strongest (by position-weighted visibility) first.
+const findDominantCompetitors = (points: RankingPoint[], targetId: string): ZoneCompetitor[] => {
+    const stats = new Map<string, { business: Business; weight: number; top3Count: number; rankSum: number; appearances: number }>();
+    points.forEach(point => point.competitorRanks.forEach(({ business, rank }) => {
+        if (business.id === targetId) return;
+        const entry = stats.get(business.id) ?? { business, weight: 0, top3Count: 0, rankSum: 0, appearances: 0 };
+        entry.weight += positionWeight(rank);
+        entry.rankSum += rank;
+        entry.appearances += 1;
+        if (rank <= 3) entry.top3Count += 1;
+        stats.set(business.id, entry);
+    }));
+    return [...stats.values()]
+        .filter(entry => entry.weight > 0)
+        .sort((a, b) => b.weight - a.weight)
+        .slice(0, ZONE_COMPETITOR_COUNT)
+        .map(entry => ({ business: entry.business, top3Count: entry.top3Count, averageRank: entry.rankSum / entry.appearances }));
+};
+
+// Groups weak points into connected regions: two weak points are connected when they're grid neighbours.
+const findWeakRegions = (weakPoints: RankedPoint[], spacingKm: number): RankedPoint[][] => {
+    const maxNeighbourKm = spacingKm * NEIGHBOUR_SPACING_FACTOR;
+    const visited = new Set<number>();
+    const regions: RankedPoint[][] = [];
+
+    weakPoints.forEach((start, startIndex) => {
+        if (visited.has(startIndex)) return;
+        visited.add(startIndex);
+        const region: RankedPoint[] = [];
+        const stack = [startIndex];
+        while (stack.length > 0) {
+            const current = weakPoints[stack.pop()!];
+            region.push(current);
+            weakPoints.forEach((candidate, candidateIndex) => {
+                if (!visited.has(candidateIndex) && haversineDistanceKm(current, candidate) <= maxNeighbourKm) {
+                    visited.add(candidateIndex);
+                    stack.push(candidateIndex);
+                }
+            });
+        }
+        regions.push(region);
+    });
+    return regions;
+};
+
+interface LocatedPoint {
+    point: RankedPoint;
+    distanceKm: number;
+    direction: string | null; // Null within half a grid step of the business, where direction means nothing
+}
+
+const locatePoints = (points: RankedPoint[], origin: LatLngLiteral, spacingKm: number): LocatedPoint[] =>
+    points.map(point => {
+        const distanceKm = haversineDistanceKm(origin, point);
+        return { point, distanceKm, direction: distanceKm < spacingKm / 2 ? null : compassDirection(bearingDegrees(origin, point)) };
+    });
+
+/**
+ * Summarises the whole grid for the business: rank by compass sector and by distance ring around
+ * it, and the contiguous weak zones (neighbouring points ranked WEAK_RANK_THRESHOLD or worse) with
+ * the competitors that dominate each. Failed points are left out.
+ */
+export const analyzeGrid = (result: ScanResult, target: Business): GridAnalysis => {
+    const points = getRankedPoints(result.rankings);
+    const origin = { lat: target.latitude, lng: target.longitude };
+    const spacingKm = estimateGridSpacingKm(result.rankings);
+    // Points within half a grid step of the business are "at" it and have no meaningful direction.
+    const centreRadiusKm = spacingKm / 2;
+    const located = locatePoints(points, origin, spacingKm);
+
+    const centrePoints = located.filter(p => p.direction === null).map(p => p.point);
+    const sectorPoints = new Map<string, RankedPoint[]>();
+    located.forEach(({ point, direction }) => {
+        if (direction) sectorPoints.set(direction, [...(sectorPoints.get(direction) ?? []), point]);
+    });
+    const sectors = COMPASS_ORDER
+        .filter(direction => sectorPoints.has(direction))
+        .map(direction => ({ direction, ...computeRankStats(sectorPoints.get(direction)!) }));
+
+    const maxDistanceKm = Math.max(0, ...located.map(p => p.distanceKm));
+    const ringWidthKm = maxDistanceKm / RING_COUNT;
+    const rings = ringWidthKm > 0
+        ? Array.from({ length: RING_COUNT }, (_, ring) => {
+            const minKm = ring * ringWidthKm;
+            const maxKm = (ring + 1) * ringWidthKm;
+            const inRing = located.filter(p => p.distanceKm >= minKm && (ring === RING_COUNT - 1 ? p.distanceKm <= maxKm : p.distanceKm < maxKm));
+            return { minKm, maxKm, ...computeRankStats(inRing.map(p => p.point)) };
+        }).filter(ring => ring.pointCount > 0)
+        : [];
+
+    const regions = findWeakRegions(points.filter(p => p.rank >= WEAK_RANK_THRESHOLD), spacingKm);
+    const weakZones = regions
+        .filter(region => region.length >= MIN_ZONE_POINTS)
+        .sort((a, b) => b.length - a.length)
+        .map(region => {
+            const centroid = {
+                lat: region.reduce((sum, p) => sum + p.lat, 0) / region.length,
+                lng: region.reduce((sum, p) => sum + p.lng, 0) / region.length,
+            };
+            const distanceKm = haversineDistanceKm(origin, centroid);
+            return {
+                pointIds: region.map(p => p.id).sort((a, b) => a - b),
+                averageRank: computeRankStats(region).averageRank,
+                centroid,
+                distanceKm,
+                direction: distanceKm < centreRadiusKm ? null : compassDirection(bearingDegrees(origin, centroid)),
+                dominantCompetitors: findDominantCompetitors(region, target.id),
+            };
+        });
+
+    return {
+        rankedPoints: points.length,
+        failedPoints: result.rankings.length - points.length,
+        centre: centrePoints.length > 0 ? computeRankStats(centrePoints) : null,
+        sectors,
+        rings,
+        weakZones,
+        isolatedWeakPoints: regions.filter(region => region.length < MIN_ZONE_POINTS).length,
+    };
+};
+
+/**
+ * For every competitor that outranks the target somewhere on the grid: how many points it wins
+ * and in which directions from the business, most points first. A competitor outranks the target
+ * at a point when it ranks above it there, including where the target isn't in the top 20.
+ */
+export const analyzeHeadToHead = (result: ScanResult, target: Business): HeadToHead[] => {
+    const points = getRankedPoints(result.rankings);
+    const located = locatePoints(points, { lat: target.latitude, lng: target.longitude }, estimateGridSpacingKm(result.rankings));
+    const stats = new Map<string, { business: Business; outranked: number; byDirection: Map<string, number> }>();
+
+    located.forEach(({ point, direction }) => point.competitorRanks.forEach(({ business, rank }) => {
+        if (business.id === target.id || rank >= cappedRank(point.rank)) return;
+        const entry = stats.get(business.id) ?? { business, outranked: 0, byDirection: new Map<string, number>() };
+        entry.outranked += 1;
+        if (direction) entry.byDirection.set(direction, (entry.byDirection.get(direction) ?? 0) + 1);
+        stats.set(business.id, entry);
+    }));
+
+    return [...stats.values()]
+        .sort((a, b) => b.outranked - a.outranked)
+        .map(entry => ({
+            business: entry.business,
+            outrankedPoints: entry.outranked,
+            outrankedShare: points.length > 0 ? (entry.outranked / points.length) * 100 : 0,
+            directions: [...entry.byDirection.entries()]
+                .sort((a, b) => b[1] - a[1])
+                .slice(0, HEAD_TO_HEAD_DIRECTIONS)
+                .map(([direction]) => direction),
+        }));
+};
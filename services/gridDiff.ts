@@ -0,0 +1,91 @@
+import { RankingPoint, ScanResult } from '../types';
+import { estimateGridSpacingKm, haversineDistanceKm } from './gridGeometry.ts';
+
+export interface PointDiff {
+    pointId: number; // Id of the point in the current scan
+    baseRank: number | null; // Null when no point in the base scan could be matched, or it has no rank
+    currentRank: number | null; // Null when the point failed in the current scan
+    delta: number | null; // Positive means the business moved up (e.g. 8 -> 4 is +4)
+    matchedBy: 'id' | 'nearest' | null;
+}
+
+export interface GridDiff {
+    points: PointDiff[];
+    gained: number;
+    lost: number;
+    unchanged: number;
+    unmatched: number;
+    top3Before: number; // % of matched points in the top 3
+    top3After: number;
+    top3Change: number; // Percentage points
+}
+
+// Ranks outside the top 20 are all treated as 21 so "20+ to 20+" counts as unchanged.
+const clampRank = (rank: number) => Math.min(rank, 21);
+
+/**
+ * Compares two scans point by point. Points are matched by id when the base scan has a point
+ * with that id in (nearly) the same place; otherwise the nearest base point within half a grid
+ * spacing is used, so grids that moved or were resized slightly still line up.
+ */
+export const diffScans = (base: ScanResult, current: ScanResult): GridDiff => {
+    const spacingKm = Math.min(estimateGridSpacingKm(base.rankings), estimateGridSpacingKm(current.rankings));
+    const sameIdToleranceKm = Math.max(0.01, spacingKm * 0.1);
+    const nearestToleranceKm = spacingKm * 0.5;
+    const baseById = new Map(base.rankings.map(p => [p.id, p]));
+
+    const points: PointDiff[] = current.rankings.map(point => {
+        const currentRank = point.error ? null : clampRank(point.rank);
+        let match: RankingPoint | undefined;
+        let matchedBy: PointDiff['matchedBy'] = null;
+
+        const sameId = baseById.get(point.id);
+        if (sameId && haversineDistanceKm(sameId, point) <= sameIdToleranceKm) {
+            match = sameId;
+            matchedBy = 'id';
+        } else {
+            let bestDistance = Infinity;
+            for (const candidate of base.rankings) {
+                const distance = haversineDistanceKm(candidate, point);
+                if (distance < bestDistance) {
+                    bestDistance = distance;
+                    match = candidate;
+                }
+            }
+            if (match && bestDistance <= nearestToleranceKm) {
+                matchedBy = 'nearest';
+            } else {
+                match = undefined;
+            }
+        }
+
+        const baseRank = match && !match.error ? clampRank(match.rank) : null;
+        const delta = baseRank === null || currentRank === null ? null : baseRank - currentRank;
+        return { pointId: point.id, baseRank, currentRank, delta, matchedBy };
+    });
+
+    const matched = points.filter(p => p.delta !== null);
+    const top3Before = matched.length > 0 ? (matched.filter(p => p.baseRank! <= 3).length / matched.length) * 100 : 0;
+    const top3After = matched.length > 0 ? (matched.filter(p => p.currentRank! <= 3).length / matched.length) * 100 : 0;
+
+    return {
+        points,
+        gained: matched.filter(p => p.delta! > 0).length,
+        lost: matched.filter(p => p.delta! < 0).length,
+        unchanged: matched.filter(p => p.delta === 0).length,
+        unmatched: points.length - matched.length,
+        top3Before,
+        top3After,
+        top3Change: top3After - top3Before,
+    };
+};
+
+export const formatRankDelta = (delta: number) => (delta > 0 ? `+${delta}` : `${delta}`);
+
+// Null means the point had no match (or no rank) in the other scan.
+export const getRankDeltaColor = (delta: number | null): string => {
+    if (delta === null) return '#9ca3af';
+    if (delta > 0) return '#16a34a';
+    if (delta < 0) return '#dc2626';
+    return '#6b7280';
+};
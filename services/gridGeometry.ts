@@ -0,0 +1,333 @@
+import { GridSpec, GridShape, ServiceArea } from '../types';
+import { hashString } from './random.ts';
+
+export interface LatLngLiteral {
+    lat: number;
+    lng: number;
+}
+
+export interface GridPoint extends LatLngLiteral {
+    id: number;
+}
+
+const EARTH_RADIUS_KM = 6371.0088;
+const toRadians = (deg: number) => deg * Math.PI / 180;
+const toDegrees = (rad: number) => rad * 180 / Math.PI;
+
+export const GRID_SHAPE_LABELS: Record<GridShape, string> = {
+    square: 'Square',
+    circle: 'Circular',
+    hexagon: 'Hexagonal',
+    polygon: 'Service area (GeoJSON)',
+};
+
+// The sizes offered in the settings sidebar. distanceKm is the full width/height of the grid.
+export const GRID_SIZE_PRESETS: Pick<GridSpec, 'cols' | 'rows' | 'distanceKm'>[] = [
+    { cols: 3, rows: 3, distanceKm: 0.5 },
+    { cols: 5, rows: 5, distanceKm: 0.75 },
+    { cols: 7, rows: 7, distanceKm: 1 },
+    { cols: 9, rows: 9, distanceKm: 1.5 },
+    { cols: 11, rows: 11, distanceKm: 2 },
+    { cols: 13, rows: 13, distanceKm: 3 },
+    { cols: 15, rows: 11, distanceKm: 4 },
+    { cols: 21, rows: 21, distanceKm: 10 },
+];
+
+export const DEFAULT_GRID_SPEC: GridSpec = { shape: 'square', cols: 15, rows: 11, distanceKm: 4 };
+
+// Great-circle distance between two points in kilometres.
+export const haversineDistanceKm = (a: LatLngLiteral, b: LatLngLiteral): number => {
+    const dLat = toRadians(b.lat - a.lat);
+    const dLng = toRadians(b.lng - a.lng);
+    const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+// Smallest distance between two points in the grid. Sampling the first 50 points keeps this cheap on large grids.
+export const estimateGridSpacingKm = (points: LatLngLiteral[]): number => {
+    let spacing = Infinity;
+    for (let i = 0; i < Math.min(points.length, 50); i++) {
+        for (let j = 0; j < points.length; j++) {
+            if (i === j) continue;
+            spacing = Math.min(spacing, haversineDistanceKm(points[i], points[j]));
+        }
+    }
+    return isFinite(spacing) ? spacing : 1;
+};
+
+const KM_PER_DEGREE_LAT = 111.32;
+
+export interface ViewportProjection {
+    toViewport: (point: LatLngLiteral) => { x: number; y: number };
+    pixelsPerKm: number;
+}
+
+/**
+ * Fits `points` into a width x height viewport, centred, with `padding` on every side. Uses an
+ * equirectangular projection around the points' mid latitude, which is accurate at grid scale.
+ */
+export const createViewportProjection = (points: LatLngLiteral[], width: number, height: number, padding: number): ViewportProjection => {
+    const lats = points.map(p => p.lat);
+    const midLat = (Math.min(...lats) + Math.max(...lats)) / 2;
+    const lngScale = Math.cos(toRadians(midLat));
+    const project = (p: LatLngLiteral) => ({ x: p.lng * lngScale, y: -p.lat });
+
+    const projected = points.map(project);
+    const minX = Math.min(...projected.map(p => p.x));
+    const maxX = Math.max(...projected.map(p => p.x));
+    const minY = Math.min(...projected.map(p => p.y));
+    const maxY = Math.max(...projected.map(p => p.y));
+    const spanX = maxX - minX;
+    const spanY = maxY - minY;
+    // A single point has no extent; show about a kilometre around it.
+    const scale = spanX === 0 && spanY === 0
+        ? (Math.min(width, height) - padding * 2) * KM_PER_DEGREE_LAT
+        : Math.min(spanX > 0 ? (width - padding * 2) / spanX : Infinity, spanY > 0 ? (height - padding * 2) / spanY : Infinity);
+    const offsetX = (width - spanX * scale) / 2;
+    const offsetY = (height - spanY * scale) / 2;
+
+    return {
+        toViewport: (point) => {
+            const { x, y } = project(point);
+            return { x: offsetX + (x - minX) * scale, y: offsetY + (y - minY) * scale };
+        },
+        pixelsPerKm: scale / KM_PER_DEGREE_LAT,
+    };
+};
+
+// Initial bearing from a to b in degrees clockwise from north, in [0, 360).
+export const bearingDegrees = (a: LatLngLiteral, b: LatLngLiteral): number => {
+    const lat1 = toRadians(a.lat);
+    const lat2 = toRadians(b.lat);
+    const dLng = toRadians(b.lng - a.lng);
+    const y = Math.sin(dLng) * Math.cos(lat2);
+    const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng);
+    return (toDegrees(Math.atan2(y, x)) + 360) % 360;
+};
+
+// The point reached by travelling distanceKm from origin along the given bearing.
+export const destinationPoint = (origin: LatLngLiteral, bearingDeg: number, distanceKm: number): LatLngLiteral => {
+    const angular = distanceKm / EARTH_RADIUS_KM;
+    const bearing = toRadians(bearingDeg);
+    const lat1 = toRadians(origin.lat);
+    const lng1 = toRadians(origin.lng);
+    const lat2 = Math.asin(Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(bearing));
+    const lng2 = lng1 + Math.atan2(Math.sin(bearing) * Math.sin(angular) * Math.cos(lat1), Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2));
+    return { lat: toDegrees(lat2), lng: ((toDegrees(lng2) + 540) % 360) - 180 };
+};
+
+// Offsets origin by eastKm then northKm, following the geodesic in each direction.
+const offsetPoint = (origin: LatLngLiteral, eastKm: number, northKm: number): LatLngLiteral => {
+    const northward = destinationPoint(origin, northKm >= 0 ? 0 : 180, Math.abs(northKm));
+    return destinationPoint(northward, eastKm >= 0 ? 90 : 270, Math.abs(eastKm));
+};
+
+// Ray-casting point-in-ring test in lng/lat space. Ring is a GeoJSON [lng, lat] array.
+const isInRing = (point: LatLngLiteral, ring: number[][]): boolean => {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [xi, yi] = ring[i];
+        const [xj, yj] = ring[j];
+        const intersects = (yi > point.lat) !== (yj > point.lat)
+            && point.lng < ((xj - xi) * (point.lat - yi)) / (yj - yi) + xi;
+        if (intersects) inside = !inside;
+    }
+    return inside;
+};
+
+// GeoJSON polygons: the first ring is the outer boundary, any others are holes.
+export const isPointInServiceArea = (point: LatLngLiteral, area: ServiceArea): boolean => {
+    const polygons = area.type === 'Polygon' ? [area.coordinates] : area.coordinates;
+    return polygons.some(([outer, ...holes]) =>
+        !!outer && isInRing(point, outer) && !holes.some(hole => isInRing(point, hole))
+    );
+};
+
+// Area-weighted centroid of the largest outer ring, treating [lng, lat] as planar, which is accurate at service-area scale.
+const serviceAreaCentroid = (area: ServiceArea): LatLngLiteral => {
+    const polygons = area.type === 'Polygon' ? [area.coordinates] : area.coordinates;
+    const ringArea = (ring: number[][]) => ring.slice(0, -1).reduce((sum, [x, y], i) => sum + x * ring[i + 1][1] - ring[i + 1][0] * y, 0) / 2;
+    const outer = polygons.map(polygon => polygon[0]).sort((a, b) => Math.abs(ringArea(b)) - Math.abs(ringArea(a)))[0];
+    const signedArea = ringArea(outer);
+    if (signedArea === 0) return { lat: outer[0][1], lng: outer[0][0] };
+    let cx = 0;
+    let cy = 0;
+    for (let i = 0; i < outer.length - 1; i++) {
+        const cross = outer[i][0] * outer[i + 1][1] - outer[i + 1][0] * outer[i][1];
+        cx += (outer[i][0] + outer[i + 1][0]) * cross;
+        cy += (outer[i][1] + outer[i + 1][1]) * cross;
+    }
+    return { lat: cy / (6 * signedArea), lng: cx / (6 * signedArea) };
+};
+
+const serviceAreaBounds = (area: ServiceArea) => {
+    const polygons = area.type === 'Polygon' ? [area.coordinates] : area.coordinates;
+    const positions = polygons.flatMap(polygon => polygon[0] ?? []);
+    const lngs = positions.map(p => p[0]);
+    const lats = positions.map(p => p[1]);
+    return { minLat: Math.min(...lats), maxLat: Math.max(...lats), minLng: Math.min(...lngs), maxLng: Math.max(...lngs) };
+};
+
+const isValidRing = (ring: unknown) => Array.isArray(ring) && ring.length >= 4
+    && ring.every(p => Array.isArray(p) && Number.isFinite(p[0]) && Number.isFinite(p[1]));
+
+const isValidPolygon = (polygon: unknown) => Array.isArray(polygon) && polygon.length > 0 && polygon.every(isValidRing);
+
+// A Polygon or MultiPolygon whose every ring has at least four [lng, lat] positions.
+export const isServiceArea = (value: unknown): value is ServiceArea => {
+    if (!value || typeof value !== 'object') return false;
+    const { type, coordinates } = value as Record<string, unknown>;
+    if (type === 'Polygon') return isValidPolygon(coordinates);
+    return type === 'MultiPolygon' && Array.isArray(coordinates) && coordinates.length > 0 && coordinates.every(isValidPolygon);
+};
+
+/**
+ * Accepts a GeoJSON Polygon or MultiPolygon, or a Feature / FeatureCollection wrapping one,
+ * and returns the service area geometry. Throws with a readable message on anything else.
+ */
+export const parseServiceArea = (json: string): ServiceArea => {
+    let value: unknown;
+    try {
+        value = JSON.parse(json);
+    } catch {
+        throw new Error("Service area is not valid JSON.");
+    }
+    const asObject = (v: unknown): Record<string, unknown> | null => (v && typeof v === 'object' ? v as Record<string, unknown> : null);
+    const isAreaGeometry = (v: unknown) => asObject(v)?.type === 'Polygon' || asObject(v)?.type === 'MultiPolygon';
+
+    let geometry = asObject(value);
+    if (geometry?.type === 'FeatureCollection') {
+        const features: unknown[] = Array.isArray(geometry.features) ? geometry.features : [];
+        geometry = asObject(features.map(f => asObject(f)?.geometry).find(isAreaGeometry));
+    }
+    if (geometry?.type === 'Feature') {
+        geometry = asObject(geometry.geometry);
+    }
+    if (!geometry || !isAreaGeometry(geometry)) {
+        throw new Error("Service area must be a GeoJSON Polygon or MultiPolygon.");
+    }
+    if (!isServiceArea(geometry)) {
+        throw new Error("Service area polygon has malformed coordinates.");
+    }
+    return geometry.type === 'Polygon'
+        ? { type: 'Polygon', coordinates: geometry.coordinates }
+        : { type: 'MultiPolygon', coordinates: geometry.coordinates };
+};
+
+// Builds an evenly spaced lattice (square or hex-offset rows) centred on `center`.
+const buildLattice = (center: LatLngLiteral, cols: number, rows: number, widthKm: number, heightKm: number, hexOffset: boolean): LatLngLiteral[] => {
+    const colSpacing = widthKm / Math.max(1, cols - 1);
+    const rowSpacing = hexOffset ? colSpacing * Math.sqrt(3) / 2 : heightKm / Math.max(1, rows - 1);
+    const rowCount = hexOffset ? Math.max(1, Math.floor(heightKm / rowSpacing) + 1) : rows;
+    const points: LatLngLiteral[] = [];
+    for (let i = 0; i < rowCount; i++) {
+        const northKm = (i - (rowCount - 1) / 2) * rowSpacing;
+        const shift = hexOffset && i % 2 === 1 ? colSpacing / 2 : 0;
+        for (let j = 0; j < cols; j++) {
+            const eastKm = (j - (cols - 1) / 2) * colSpacing + shift;
+            points.push(offsetPoint(center, eastKm, northKm));
+        }
+    }
+    return points;
+};
+
+// Regular, flat-topped hexagon of the given circumradius around the centre.
+const isInHexagon = (center: LatLngLiteral, point: LatLngLiteral, radiusKm: number): boolean => {
+    const distance = haversineDistanceKm(center, point);
+    const bearing = toRadians(bearingDegrees(center, point));
+    const x = Math.abs(distance * Math.sin(bearing));
+    const y = Math.abs(distance * Math.cos(bearing));
+    const apothem = radiusKm * Math.sqrt(3) / 2;
+    return y <= apothem && Math.sqrt(3) * x + y <= Math.sqrt(3) * radiusKm;
+};
+
+/**
+ * Lays out the scan grid. Square grids are centred on the business; circular and hexagonal
+ * grids are clipped to a radius of half the grid width; service-area grids cover the polygon's
+ * bounding box and keep only the points inside it. Point ids are 1-based, row by row from the south.
+ */
+export const buildGrid = (center: LatLngLiteral, spec: GridSpec): GridPoint[] => {
+    const radiusKm = spec.distanceKm / 2;
+    // Small tolerance so points that sit exactly on the boundary aren't lost to float error.
+    const edgeTolerance = 1e-6;
+    let points: LatLngLiteral[];
+
+    switch (spec.shape) {
+        case 'circle':
+            points = buildLattice(center, spec.cols, spec.rows, spec.distanceKm, spec.distanceKm, false)
+                .filter(p => haversineDistanceKm(center, p) <= radiusKm + edgeTolerance);
+            break;
+        case 'hexagon':
+            points = buildLattice(center, spec.cols, spec.rows, spec.distanceKm, spec.distanceKm, true)
+                .filter(p => isInHexagon(center, p, radiusKm + edgeTolerance));
+            break;
+        case 'polygon': {
+            if (!spec.serviceArea) {
+                throw new Error("A service area polygon is required for this grid shape.");
+            }
+            const area = spec.serviceArea;
+            const bounds = serviceAreaBounds(area);
+            const areaCenter = { lat: (bounds.minLat + bounds.maxLat) / 2, lng: (bounds.minLng + bounds.maxLng) / 2 };
+            const widthKm = haversineDistanceKm({ lat: areaCenter.lat, lng: bounds.minLng }, { lat: areaCenter.lat, lng: bounds.maxLng });
+            const heightKm = haversineDistanceKm({ lat: bounds.minLat, lng: areaCenter.lng }, { lat: bounds.maxLat, lng: areaCenter.lng });
+            points = buildLattice(areaCenter, spec.cols, spec.rows, widthKm, heightKm, false)
+                .filter(p => isPointInServiceArea(p, area));
+            // An area smaller than the lattice spacing can fall between every lattice point.
+            if (points.length === 0) {
+                const centroid = serviceAreaCentroid(area);
+                if (!isPointInServiceArea(centroid, area)) {
+                    throw new Error("The service area is too small or narrow for this grid. Use more points or a larger area.");
+                }
+                points = [centroid];
+            }
+            break;
+        }
+        case 'square':
+        default:
+            points = buildLattice(center, spec.cols, spec.rows, spec.distanceKm, spec.distanceKm, false);
+    }
+
+    return points.map((p, index) => ({ id: index + 1, lat: p.lat, lng: p.lng }));
+};
+
+// Turns a legacy display string like "15 x 11 (4 km)" into a square grid spec.
+export const parseLegacyGridSize = (gridSizeStr: string): GridSpec => {
+    const sizeMatch = gridSizeStr.match(/(\d+)\s*x\s*(\d+)/);
+    const distanceMatch = gridSizeStr.match(/\(([\d.]+)\s*km\)/);
+    return {
+        shape: 'square',
+        cols: sizeMatch ? parseInt(sizeMatch[1], 10) : 7,
+        rows: sizeMatch ? parseInt(sizeMatch[2], 10) : 7,
+        distanceKm: distanceMatch ? parseFloat(distanceMatch[1]) : 1,
+    };
+};
+
+// History saved before grids were structured still holds the display string.
+export const normalizeGridSpec = (gridSize: GridSpec | string | undefined): GridSpec => {
+    if (!gridSize) return DEFAULT_GRID_SPEC;
+    return typeof gridSize === 'string' ? parseLegacyGridSize(gridSize) : gridSize;
+};
+
+export const formatGridSize = (spec: Pick<GridSpec, 'cols' | 'rows' | 'distanceKm'>): string =>
+    `${spec.cols} x ${spec.rows} (${spec.distanceKm} km)`;
+
+export const formatGridSpec = (spec: GridSpec): string => {
+    if (spec.shape === 'square') return formatGridSize(spec);
+    // Service-area grids take their extent from the polygon, not from distanceKm.
+    if (spec.shape === 'polygon') return `${spec.cols} x ${spec.rows}, ${GRID_SHAPE_LABELS.polygon}`;
+    return `${formatGridSize(spec)}, ${GRID_SHAPE_LABELS[spec.shape]}`;
+};
+
+// Identifies a grid for grouping and de-duplicating scans. The label alone reads the same for every
+// service area, so polygon grids also carry a hash of their area.
+export const getGridKey = (gridSize: GridSpec | string | undefined): string => {
+    const spec = normalizeGridSpec(gridSize);
+    const label = formatGridSpec(spec);
+    return spec.shape === 'polygon' && spec.serviceArea ? `${label} #${hashString(JSON.stringify(spec.serviceArea)).toString(36)}` : label;
+};
+
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+// 8-point compass label for a bearing in degrees.
+export const compassDirection = (bearingDeg: number): string =>
+    COMPASS_POINTS[Math.round((((bearingDeg % 360) + 360) % 360) / 45) % 8];
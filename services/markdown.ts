@@ -0,0 +1,303 @@
+// A small markdown parser for Gemini's answers. It produces a tree rather than HTML, so renderers
+// escape every piece of text themselves and raw HTML in a response is never interpreted.
+
+export type MarkdownInline =
+    | { type: 'text'; text: string }
+    | { type: 'strong'; children: MarkdownInline[] }
+    | { type: 'em'; children: MarkdownInline[] }
+    | { type: 'code'; text: string }
+    | { type: 'link'; href: string; children: MarkdownInline[] }
+    | { type: 'citation'; sourceIndex: number }; // 0-based index into the insight's sources
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type MarkdownBlock =
+    | { type: 'heading'; level: number; children: MarkdownInline[] }
+    | { type: 'paragraph'; children: MarkdownInline[] }
+    | { type: 'list'; ordered: boolean; start: number; items: MarkdownBlock[][] }
+    | { type: 'table'; align: TableAlign[]; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+    | { type: 'blockquote'; children: MarkdownBlock[] }
+    | { type: 'code'; text: string }
+    | { type: 'rule' };
+
+const HEADING = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const FENCE = /^ {0,3}(```|~~~)/;
+const BLOCKQUOTE = /^ {0,3}>\s?/;
+const LIST_ITEM = /^(\s*)([-*+]|(\d{1,9})[.)])(\s+|$)/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const SAFE_URL = /^(https?:|mailto:)/i;
+
+// Only web and mail links are rendered as links; anything else (javascript:, data:) stays text.
+export const isSafeUrl = (url: string): boolean => SAFE_URL.test(url.trim());
+
+// Citation markers added to grounded answers, e.g. "[^2]" for the second source.
+export const formatCitationMarker = (sourceIndex: number) => `[^${sourceIndex + 1}]`;
+
+export const stripCitationMarkers = (text: string) => text.replace(/\[\^\d+\]/g, '');
+
+const leadingSpaces = (line: string) => line.length - line.trimStart().length;
+const isBlank = (line: string) => line.trim() === '';
+
+const isTableStart = (lines: string[], i: number) =>
+    lines[i].includes('|') && i + 1 < lines.length && lines[i + 1].includes('-') && TABLE_SEPARATOR.test(lines[i + 1]);
+
+const startsBlock = (lines: string[], i: number) => {
+    const line = lines[i];
+    return HEADING.test(line) || RULE.test(line) || FENCE.test(line) || BLOCKQUOTE.test(line) || LIST_ITEM.test(line) || isTableStart(lines, i);
+};
+
+const splitTableRow = (line: string): string[] => {
+    let row = line.trim();
+    if (row.startsWith('|')) row = row.slice(1);
+    if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+    const cells: string[] = [];
+    let cell = '';
+    for (let i = 0; i < row.length; i++) {
+        if (row[i] === '\\' && row[i + 1] === '|') {
+            cell += '|';
+            i++;
+        } else if (row[i] === '|') {
+            cells.push(cell.trim());
+            cell = '';
+        } else {
+            cell += row[i];
+        }
+    }
+    cells.push(cell.trim());
+    return cells;
+};
+
+const parseAlign = (cell: string): TableAlign => {
+    const left = cell.startsWith(':');
+    const right = cell.endsWith(':');
+    if (left && right) return 'center';
+    if (right) return 'right';
+    if (left) return 'left';
+    return null;
+};
+
+// Finds the closing `delimiter` for an emphasis run starting at `from`, skipping code spans.
+const findClosing = (text: string, delimiter: string, from: number): number => {
+    for (let i = from; i < text.length; i++) {
+        if (text[i] === '\\') {
+            i++;
+        } else if (text[i] === '`') {
+            const end = text.indexOf('`', i + 1);
+            if (end === -1) return -1;
+            i = end;
+        } else if (text.startsWith(delimiter, i) && i > from && text[i - 1] !== ' ') {
+            // A single `*` must not be half of a `**` run.
+            if (delimiter.length === 1 && text[i + 1] === delimiter) {
+                i++;
+                continue;
+            }
+            return i;
+        }
+    }
+    return -1;
+};
+
+// Finds the `]` that closes the `[` at `open`, allowing nested brackets.
+const findClosingBracket = (text: string, open: number): number => {
+    let depth = 0;
+    for (let i = open; i < text.length; i++) {
+        if (text[i] === '\\') i++;
+        else if (text[i] === '[') depth++;
+        else if (text[i] === ']' && --depth === 0) return i;
+    }
+    return -1;
+};
+
+const isWordChar = (char: string | undefined) => !!char && /[\p{L}\p{N}]/u.test(char);
+
+export const parseInline = (text: string): MarkdownInline[] => {
+    const nodes: MarkdownInline[] = [];
+    let buffer = '';
+    const flush = () => {
+        if (buffer) nodes.push({ type: 'text', text: buffer });
+        buffer = '';
+    };
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (char === '\\' && i + 1 < text.length && /[\\`*_{}[\]()#+\-.!|>~^]/.test(text[i + 1])) {
+            buffer += text[++i];
+            continue;
+        }
+
+        if (char === '`') {
+            const end = text.indexOf('`', i + 1);
+            if (end !== -1) {
+                flush();
+                nodes.push({ type: 'code', text: text.slice(i + 1, end) });
+                i = end;
+                continue;
+            }
+        }
+
+        if (char === '[') {
+            const citation = /^\[\^(\d+)\]/.exec(text.slice(i));
+            if (citation) {
+                flush();
+                nodes.push({ type: 'citation', sourceIndex: Number(citation[1]) - 1 });
+                i += citation[0].length - 1;
+                continue;
+            }
+            const close = findClosingBracket(text, i);
+            if (close !== -1 && text[close + 1] === '(') {
+                const end = text.indexOf(')', close + 2);
+                if (end !== -1) {
+                    const href = text.slice(close + 2, end).trim().split(/\s+/)[0] ?? '';
+                    const children = parseInline(text.slice(i + 1, close));
+                    flush();
+                    if (isSafeUrl(href)) nodes.push({ type: 'link', href, children });
+                    else nodes.push(...children);
+                    i = end;
+                    continue;
+                }
+            }
+        }
+
+        if (char === '*' || char === '_') {
+            const isDouble = text[i + 1] === char;
+            const delimiter = isDouble ? char + char : char;
+            const start = i + delimiter.length;
+            // Underscores inside words (snake_case) are literal, and a run must not open before a space.
+            const canOpen = text[start] !== undefined && text[start] !== ' ' && !(char === '_' && isWordChar(text[i - 1]));
+            const close = canOpen ? findClosing(text, delimiter, start) : -1;
+            if (close !== -1 && !(char === '_' && isWordChar(text[close + delimiter.length]))) {
+                flush();
+                const children = parseInline(text.slice(start, close));
+                nodes.push(isDouble ? { type: 'strong', children } : { type: 'em', children });
+                i = close + delimiter.length - 1;
+                continue;
+            }
+        }
+
+        buffer += char;
+    }
+    flush();
+    return nodes;
+};
+
+const parseList = (lines: string[], start: number): { block: MarkdownBlock; next: number } => {
+    const first = LIST_ITEM.exec(lines[start])!;
+    const indent = first[1].length;
+    const ordered = first[3] !== undefined;
+    const items: string[][] = [];
+    let contentIndent = 0;
+    let i = start;
+
+    while (i < lines.length) {
+        const line = lines[i];
+        const marker = LIST_ITEM.exec(line);
+        const isSibling = marker && marker[1].length === indent && (marker[3] !== undefined) === ordered;
+
+        if (isSibling) {
+            contentIndent = marker[0].length;
+            items.push([line.slice(marker[0].length)]);
+        } else if (isBlank(line)) {
+            // A blank line only continues the list if more of it follows.
+            let nextLine = i + 1;
+            while (nextLine < lines.length && isBlank(lines[nextLine])) nextLine++;
+            if (nextLine >= lines.length) break;
+            const nextMarker = LIST_ITEM.exec(lines[nextLine]);
+            const continues = leadingSpaces(lines[nextLine]) > indent
+                || (nextMarker && nextMarker[1].length === indent && (nextMarker[3] !== undefined) === ordered);
+            if (!continues) break;
+            items[items.length - 1].push('');
+        } else if (leadingSpaces(line) > indent) {
+            items[items.length - 1].push(line.slice(Math.min(contentIndent, leadingSpaces(line))));
+        } else if (!startsBlock(lines, i) && !isBlank(items[items.length - 1][items[items.length - 1].length - 1])) {
+            // Lazy continuation of the item's paragraph.
+            items[items.length - 1].push(line.trim());
+        } else {
+            break;
+        }
+        i++;
+    }
+
+    return {
+        block: { type: 'list', ordered, start: ordered ? Number(first[3]) : 1, items: items.map(itemLines => parseBlocks(itemLines)) },
+        next: i,
+    };
+};
+
+const parseBlocks = (lines: string[]): MarkdownBlock[] => {
+    const blocks: MarkdownBlock[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+        const line = lines[i];
+
+        if (isBlank(line)) {
+            i++;
+            continue;
+        }
+
+        const fence = FENCE.exec(line);
+        if (fence) {
+            const body: string[] = [];
+            i++;
+            while (i < lines.length && !lines[i].trimStart().startsWith(fence[1])) body.push(lines[i++]);
+            blocks.push({ type: 'code', text: body.join('\n') });
+            i++;
+            continue;
+        }
+
+        const heading = HEADING.exec(line);
+        if (heading) {
+            blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+            i++;
+            continue;
+        }
+
+        // Checked before lists, since "* * *" is a rule rather than an item.
+        if (RULE.test(line)) {
+            blocks.push({ type: 'rule' });
+            i++;
+            continue;
+        }
+
+        if (isTableStart(lines, i)) {
+            const header = splitTableRow(line);
+            const align = splitTableRow(lines[i + 1]).map(parseAlign);
+            const rows: MarkdownInline[][][] = [];
+            i += 2;
+            while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) {
+                const cells = splitTableRow(lines[i++]);
+                rows.push(header.map((_, column) => parseInline(cells[column] ?? '')));
+            }
+            blocks.push({ type: 'table', align: header.map((_, column) => align[column] ?? null), header: header.map(parseInline), rows });
+            continue;
+        }
+
+        if (BLOCKQUOTE.test(line)) {
+            const quoted: string[] = [];
+            while (i < lines.length && BLOCKQUOTE.test(lines[i])) quoted.push(lines[i++].replace(BLOCKQUOTE, ''));
+            blocks.push({ type: 'blockquote', children: parseBlocks(quoted) });
+            continue;
+        }
+
+        if (LIST_ITEM.test(line)) {
+            const { block, next } = parseList(lines, i);
+            blocks.push(block);
+            i = next;
+            continue;
+        }
+
+        const paragraph: string[] = [line.trim()];
+        i++;
+        while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines, i)) paragraph.push(lines[i++].trim());
+        blocks.push({ type: 'paragraph', children: parseInline(paragraph.join(' ')) });
+    }
+
+    return blocks;
+};
+
+/** Parses markdown into blocks: headings, paragraphs, (nested) lists, tables, quotes, code and rules. */
+export const parseMarkdown = (markdown: string): MarkdownBlock[] =>
+    parseBlocks(markdown.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n'));
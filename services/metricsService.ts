@@ -0,0 +1,83 @@
+import { Business, ScanResult } from '../types';
+import { LatLngLiteral, bearingDegrees, compassDirection, haversineDistanceKm } from './gridGeometry.ts';
+import { getRankedPoints } from './scanUtils.ts';
+
+export interface BusinessMetrics {
+    business: Business;
+    isTarget: boolean;
+    visibilityShare: number; // % of all position-weighted visibility across the grid
+    top3Presence: number; // % of grid points where the business ranks 1-3
+    presence: number; // % of grid points where the business ranks at all
+    averageRank: number | null; // Mean rank over the points where it appears; null if it never does
+    bestArea: LatLngLiteral | null; // Visibility-weighted centroid of the points it ranks at
+    bestAreaLabel: string | null; // e.g. "1.2 km NE" relative to the target business
+}
+
+export type MetricsSortKey = 'visibilityShare' | 'top3Presence' | 'averageRank' | 'name';
+
+// Position weights: rank 1 is worth a full point and each lower position less, down to nothing past 20.
+export const positionWeight = (rank: number): number => (rank >= 1 && rank <= 20 ? 1 / rank : 0);
+
+/**
+ * Computes leaderboard metrics for every business that appears in the scan's per-point rankings.
+ * Unlike the sidebar's older average, missing ranks are not filled in as 21: average rank only
+ * covers the points where a business appears, and presence reports how often that is.
+ */
+export const computeBusinessMetrics = (result: ScanResult, target: Business | null): BusinessMetrics[] => {
+    const totalPoints = getRankedPoints(result.rankings).length;
+    const stats = new Map<string, { business: Business; weight: number; top3: number; appearances: number; rankSum: number; latSum: number; lngSum: number }>();
+
+    let totalWeight = 0;
+    for (const point of result.rankings) {
+        for (const { rank, business } of point.competitorRanks) {
+            let entry = stats.get(business.id);
+            if (!entry) {
+                entry = { business, weight: 0, top3: 0, appearances: 0, rankSum: 0, latSum: 0, lngSum: 0 };
+                stats.set(business.id, entry);
+            }
+            const weight = positionWeight(rank);
+            entry.weight += weight;
+            entry.latSum += point.lat * weight;
+            entry.lngSum += point.lng * weight;
+            entry.appearances += 1;
+            entry.rankSum += rank;
+            if (rank <= 3) entry.top3 += 1;
+            totalWeight += weight;
+        }
+    }
+
+    const origin = target ? { lat: target.latitude, lng: target.longitude } : null;
+
+    return [...stats.values()].map(entry => {
+        const bestArea = entry.weight > 0 ? { lat: entry.latSum / entry.weight, lng: entry.lngSum / entry.weight } : null;
+        let bestAreaLabel: string | null = null;
+        if (bestArea && origin) {
+            const distance = haversineDistanceKm(origin, bestArea);
+            bestAreaLabel = distance < 0.1 ? 'Centre' : `${distance.toFixed(1)} km ${compassDirection(bearingDegrees(origin, bestArea))}`;
+        }
+        return {
+            business: entry.business,
+            isTarget: entry.business.id === target?.id,
+            visibilityShare: totalWeight > 0 ? (entry.weight / totalWeight) * 100 : 0,
+            top3Presence: totalPoints > 0 ? (entry.top3 / totalPoints) * 100 : 0,
+            presence: totalPoints > 0 ? (entry.appearances / totalPoints) * 100 : 0,
+            averageRank: entry.appearances > 0 ? entry.rankSum / entry.appearances : null,
+            bestArea,
+            bestAreaLabel,
+        };
+    });
+};
+
+export const sortBusinessMetrics = (metrics: BusinessMetrics[], key: MetricsSortKey, ascending: boolean): BusinessMetrics[] => {
+    const direction = ascending ? 1 : -1;
+    return [...metrics].sort((a, b) => {
+        if (key === 'name') return direction * a.business.name.localeCompare(b.business.name);
+        if (key === 'averageRank') {
+            // Businesses that never rank always sort last.
+            if (a.averageRank === null) return b.averageRank === null ? 0 : 1;
+            if (b.averageRank === null) return -1;
+            return direction * (a.averageRank - b.averageRank);
+        }
+        return direction * (a[key] - b[key]);
+    });
+};
@@ -0,0 +1,107 @@
+import { ScanSettings, MonitoredJob, MonitorCadence, MonitorRun } from '../types';
+import { getScanKeywords } from './scanUtils.ts';
+import { getGridKey } from './gridGeometry.ts';
+
+const STORAGE_KEY = 'gmbMonitoredJobs';
+// How many past runs to keep on each job.
+const MAX_RUNS_PER_JOB = 50;
+
+export const CADENCE_LABELS: Record<MonitorCadence, string> = {
+    daily: 'Daily',
+    weekly: 'Weekly',
+    monthly: 'Monthly',
+};
+
+// Next run time after `from` for the given cadence. Monthly runs clamp to the end of short months.
+export const computeNextRun = (from: Date, cadence: MonitorCadence): Date => {
+    const next = new Date(from);
+    if (cadence === 'daily') {
+        next.setDate(next.getDate() + 1);
+    } else if (cadence === 'weekly') {
+        next.setDate(next.getDate() + 7);
+    } else {
+        const day = next.getDate();
+        next.setDate(1);
+        next.setMonth(next.getMonth() + 1);
+        const daysInMonth = new Date(next.getFullYear(), next.getMonth() + 1, 0).getDate();
+        next.setDate(Math.min(day, daysInMonth));
+    }
+    return next;
+};
+
+export const createMonitoredJob = (settings: ScanSettings, cadence: MonitorCadence, now: Date = new Date()): MonitoredJob => ({
+    id: `job-${now.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+    // Monitored scans rediscover competitors and draw a fresh seed on every run.
+    settings: { ...settings, seed: undefined },
+    cadence,
+    status: 'active',
+    createdAt: now.toISOString(),
+    nextRunAt: computeNextRun(now, cadence).toISOString(),
+    runs: [],
+});
+
+// Jobs are the same when they scan the same business, keywords and grid with the same provider for the same project.
+const getJobKey = (settings: ScanSettings, projectId: string | undefined): string => [
+    projectId ?? '',
+    settings.location?.id ?? '',
+    getScanKeywords(settings).map(k => k.toLowerCase()).join(','),
+    getGridKey(settings.gridSize),
+    settings.provider ?? 'mock',
+    settings.provider === 'http' ? settings.serpEndpoint?.trim() ?? '' : '',
+].join('|');
+
+/**
+ * Adds a job for `settings`, unless the project already monitors the same scan: then that job is
+ * switched to `cadence` (and resumed) instead, so repeated requests never create duplicates.
+ */
+export const addMonitoredJob = (
+    jobs: MonitoredJob[],
+    settings: ScanSettings,
+    cadence: MonitorCadence,
+    projectId?: string,
+    now: Date = new Date()
+): MonitoredJob[] => {
+    const key = getJobKey(settings, projectId);
+    const existing = jobs.find(job => getJobKey(job.settings, job.projectId) === key);
+    if (!existing) return [{ ...createMonitoredJob(settings, cadence, now), projectId }, ...jobs];
+    if (existing.cadence === cadence && existing.status === 'active') return jobs;
+    const updated: MonitoredJob = { ...existing, cadence, status: 'active', nextRunAt: computeNextRun(now, cadence).toISOString() };
+    return jobs.map(job => (job.id === existing.id ? updated : job));
+};
+
+export const getDueJobs = (jobs: MonitoredJob[], now: Date = new Date()): MonitoredJob[] =>
+    jobs.filter(job => job.status === 'active' && new Date(job.nextRunAt).getTime() <= now.getTime());
+
+// Appends a run and schedules the next one from the time the run started, so scan time doesn't shift the schedule.
+export const recordJobRun = (job: MonitoredJob, run: MonitorRun): MonitoredJob => ({
+    ...job,
+    runs: [...job.runs, run].slice(-MAX_RUNS_PER_JOB),
+    nextRunAt: computeNextRun(new Date(run.runAt), job.cadence).toISOString(),
+});
+
+// Resuming a job whose run time passed while paused schedules it from now rather than firing immediately.
+export const setJobPaused = (job: MonitoredJob, paused: boolean, now: Date = new Date()): MonitoredJob => {
+    if (paused) return { ...job, status: 'paused' };
+    const nextRunAt = new Date(job.nextRunAt).getTime() <= now.getTime()
+        ? computeNextRun(now, job.cadence).toISOString()
+        : job.nextRunAt;
+    return { ...job, status: 'active', nextRunAt };
+};
+
+export const loadMonitoredJobs = (): MonitoredJob[] => {
+    try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+        console.error("Failed to load monitored jobs:", error);
+        return [];
+    }
+};
+
+export const saveMonitoredJobs = (jobs: MonitoredJob[]) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(jobs));
+    } catch (error) {
+        console.error("Failed to save monitored jobs:", error);
+    }
+};
@@ -0,0 +1,34 @@
+// Seeded pseudo-random helpers so simulated scans can be reproduced exactly.
+
+// Creates a fresh 32-bit seed for scans that don't pin one.
+export const generateSeed = (): number => Math.floor(Math.random() * 0xFFFFFFFF) >>> 0;
+
+// FNV-1a hash of a string into an unsigned 32-bit integer.
+export const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+// Mulberry32 PRNG. Returns a function yielding floats in [0, 1).
+export const createSeededRandom = (seed: number): (() => number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+/**
+ * A deterministic float in [0, 1) for a seed and a set of keys. Because each value depends only on
+ * its keys (not on how many numbers were drawn before it), reordering competitors or grid points
+ * doesn't change the result.
+ */
+export const seededValue = (seed: number, ...keys: (string | number)[]): number =>
+    createSeededRandom(hashString(`${seed >>> 0}:${keys.join(':')}`))();
@@ -0,0 +1,148 @@
+import { ScanSettings, ScanResult, Business, RankingPoint, CompetitorRank, GroundingSource, RankProviderId } from '../types';
+import { generateScanResults } from './mockDataService.ts';
+import { buildScanResult } from './scanUtils.ts';
+import { buildGrid } from './gridGeometry.ts';
+import { scanGridPoints, GridScanOptions } from './scanExecutor.ts';
+import { generateBusinessId, toCoordinate } from './competitorValidation.ts';
+
+// Called after each grid point with the point just ranked.
+export type ScanProgressCallback = (progress: { current: number; total: number; point: RankingPoint }) => void;
+
+export interface RankProvider {
+    id: RankProviderId;
+    label: string;
+    defaultConcurrency: number;
+    defaultRequestsPerSecond: number;
+    scan: (
+        settings: ScanSettings,
+        competitors: Business[],
+        onProgress: ScanProgressCallback,
+        competitorSources: GroundingSource[],
+        options?: GridScanOptions
+    ) => Promise<ScanResult>;
+}
+
+const mockProvider: RankProvider = {
+    id: 'mock',
+    label: 'Simulated (mock)',
+    // Paced like a fast real provider, so progress and cancellation behave realistically.
+    defaultConcurrency: 4,
+    defaultRequestsPerSecond: 40,
+    scan: generateScanResults,
+};
+
+const isSameBusiness = (a: Pick<Business, 'id' | 'name'>, b: Pick<Business, 'id' | 'name'>) =>
+    a.id === b.id || a.name.trim().toLowerCase() === b.name.trim().toLowerCase();
+
+const toText = (value: unknown): string | undefined =>
+    (typeof value === 'string' && value.trim() !== '') || typeof value === 'number' ? String(value) : undefined;
+
+/**
+ * Normalises one entry of a SERP response into a Business. Known businesses (the target and its
+ * competitors) are matched by id or name and reported as the app knows them. Other entries need a
+ * name and a valid position; null is returned when they lack one, rather than placing them at 0,0.
+ */
+const toBusiness = (entry: unknown, known: Business[]): Business | null => {
+    if (!entry || typeof entry !== 'object') return null;
+    const fields = entry as Record<string, unknown>;
+    const name = toText(fields.name ?? fields.title);
+    if (!name) return null;
+    const address = toText(fields.address) ?? '';
+    // Entries without an id get one from their name and address, so the same business keeps it at every point.
+    const id = toText(fields.id ?? fields.placeId ?? fields.place_id) ?? generateBusinessId(name, address);
+    const match = known.find(b => isSameBusiness(b, { id, name }));
+    if (match) return match;
+
+    const latitude = toCoordinate(fields.latitude ?? fields.lat);
+    const longitude = toCoordinate(fields.longitude ?? fields.lng);
+    if (latitude === null || longitude === null || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+    return { id, name, address, latitude, longitude };
+};
+
+// Per request, so a hung endpoint fails the attempt instead of holding a worker forever.
+const SERP_REQUEST_TIMEOUT_MS = 15_000;
+
+// Fetches and parses `url`, aborting after SERP_REQUEST_TIMEOUT_MS or as soon as `signal` aborts.
+const fetchJsonWithTimeout = async (url: string, signal?: AbortSignal): Promise<unknown> => {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    let timedOut = false;
+    const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+    }, SERP_REQUEST_TIMEOUT_MS);
+
+    try {
+        const response = await fetch(url, { signal: controller.signal });
+        if (!response.ok) {
+            throw new Error(`SERP endpoint returned ${response.status}.`);
+        }
+        return await response.json();
+    } catch (error) {
+        if (timedOut) throw new Error(`SERP endpoint did not respond within ${SERP_REQUEST_TIMEOUT_MS / 1000}s.`);
+        throw error;
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+    }
+};
+
+/**
+ * Calls a SERP endpoint once per grid point:
+ *   GET <endpoint>?q=<query>&lat=<lat>&lng=<lng>&placeId=<target id>
+ * The endpoint must answer with the local results in rank order, either as a bare
+ * array or as `{ results: [...] }`, each entry carrying id, name, address, latitude and longitude.
+ */
+const httpSerpProvider: RankProvider = {
+    id: 'http',
+    label: 'HTTP SERP endpoint',
+    defaultConcurrency: 2,
+    defaultRequestsPerSecond: 5,
+    scan: async (settings, competitors, onProgress, competitorSources, options) => {
+        if (!settings.location) {
+            throw new Error("Location is not set for scan.");
+        }
+        if (!settings.serpEndpoint) {
+            throw new Error("No SERP endpoint configured for the HTTP rank provider.");
+        }
+
+        const target = settings.location;
+        const gridPoints = buildGrid({ lat: target.latitude, lng: target.longitude }, settings.gridSize);
+
+        const rankings = await scanGridPoints(gridPoints, async (gridPoint): Promise<RankingPoint> => {
+            const url = new URL(settings.serpEndpoint, window.location.href);
+            url.searchParams.set('q', settings.searchQuery);
+            url.searchParams.set('lat', gridPoint.lat.toString());
+            url.searchParams.set('lng', gridPoint.lng.toString());
+            url.searchParams.set('placeId', target.id);
+
+            const body = await fetchJsonWithTimeout(url.toString(), options?.control?.signal);
+            const results = body && typeof body === 'object' && 'results' in body ? body.results : undefined;
+            const entries: unknown[] = Array.isArray(body) ? body : Array.isArray(results) ? results : [];
+
+            // Ranks are positions in the response, so a skipped entry doesn't move the ones after it up.
+            const competitorRanks: CompetitorRank[] = entries
+                .map((entry, index) => {
+                    const business = toBusiness(entry, [target, ...competitors]);
+                    return business && { rank: index + 1, business };
+                })
+                .filter((entry): entry is CompetitorRank => entry !== null);
+
+            return {
+                id: gridPoint.id,
+                rank: competitorRanks.find(r => r.business.id === target.id)?.rank ?? 21,
+                lat: gridPoint.lat,
+                lng: gridPoint.lng,
+                competitorRanks,
+            };
+        }, onProgress, options);
+
+        return buildScanResult(settings, rankings, competitors, competitorSources);
+    },
+};
+
+export const rankProviders: RankProvider[] = [mockProvider, httpSerpProvider];
+
+export const getRankProvider = (id: RankProviderId | undefined): RankProvider =>
+    rankProviders.find(p => p.id === id) ?? mockProvider;
@@ -0,0 +1,234 @@
+import { Business, GroundingSource, Insight, InsightType, ScanResult, ScanSettings } from '../types';
+import { formatGridSpec, normalizeGridSpec, createViewportProjection } from './gridGeometry.ts';
+import { computeBusinessMetrics, sortBusinessMetrics } from './metricsService.ts';
+import { getRankColor, getPointColor, formatPointRank, UNKNOWN_RANK_COLOR } from './scanUtils.ts';
+import { MarkdownBlock, MarkdownInline, isSafeUrl, parseMarkdown } from './markdown.ts';
+import { escapeHtml } from './escape.ts';
+
+export interface ReportBranding {
+    agencyName: string;
+    logoUrl: string; // Remote URL or an uploaded image as a data URL
+    primaryColor: string; // Hex colour used for headings and accents
+    clientName: string;
+}
+
+const STORAGE_KEY = 'gmbReportBranding';
+const LEADERBOARD_SIZE = 10;
+
+export const DEFAULT_BRANDING: ReportBranding = { agencyName: '', logoUrl: '', primaryColor: '#4f46e5', clientName: '' };
+
+export const loadReportBranding = (): ReportBranding => {
+    try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        return saved ? { ...DEFAULT_BRANDING, ...JSON.parse(saved) } : DEFAULT_BRANDING;
+    } catch (error) {
+        console.error("Failed to load report branding:", error);
+        return DEFAULT_BRANDING;
+    }
+};
+
+export const saveReportBranding = (branding: ReportBranding) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(branding));
+    } catch (error) {
+        console.error("Failed to save report branding:", error);
+    }
+};
+
+const INSIGHT_TITLES: Record<InsightType, string> = {
+    ranking: 'Ranking Insights',
+    competitor: 'Competitor Gap',
+    review: 'Review Volume',
+};
+
+// Sources come from grounding or imported files; only web and mail URIs become links.
+const renderSourceHtml = (source: GroundingSource): string => {
+    const label = escapeHtml(source.title || source.uri);
+    return isSafeUrl(source.uri) ? `<a href="${escapeHtml(source.uri)}">${label}</a>` : label;
+};
+
+const renderInlineHtml = (nodes: MarkdownInline[], sources: GroundingSource[]): string => nodes.map(node => {
+    switch (node.type) {
+        case 'text': return escapeHtml(node.text);
+        case 'strong': return `<strong>${renderInlineHtml(node.children, sources)}</strong>`;
+        case 'em': return `<em>${renderInlineHtml(node.children, sources)}</em>`;
+        case 'code': return `<code>${escapeHtml(node.text)}</code>`;
+        case 'link': return `<a href="${escapeHtml(node.href)}">${renderInlineHtml(node.children, sources)}</a>`;
+        case 'citation': {
+            const source = sources[node.sourceIndex];
+            const label = `[${node.sourceIndex + 1}]`;
+            return `<sup>${source && isSafeUrl(source.uri) ? `<a href="${escapeHtml(source.uri)}">${label}</a>` : label}</sup>`;
+        }
+    }
+}).join('');
+
+// Insight markdown as HTML for the printable report. All text is escaped, so raw HTML in an answer shows as text.
+const renderMarkdownHtml = (blocks: MarkdownBlock[], sources: GroundingSource[]): string => blocks.map(block => {
+    switch (block.type) {
+        case 'heading': return `<h${Math.min(6, block.level + 2)}>${renderInlineHtml(block.children, sources)}</h${Math.min(6, block.level + 2)}>`;
+        case 'paragraph': return `<p>${renderInlineHtml(block.children, sources)}</p>`;
+        case 'list': {
+            const items = block.items.map(item => `<li>${renderMarkdownHtml(item, sources)}</li>`).join('');
+            return block.ordered ? `<ol start="${block.start}">${items}</ol>` : `<ul>${items}</ul>`;
+        }
+        case 'table': {
+            const cell = (tag: string, content: MarkdownInline[], column: number) =>
+                `<${tag}${block.align[column] ? ` style="text-align:${block.align[column]}"` : ''}>${renderInlineHtml(content, sources)}</${tag}>`;
+            const header = `<tr>${block.header.map((content, column) => cell('th', content, column)).join('')}</tr>`;
+            const rows = block.rows.map(row => `<tr>${row.map((content, column) => cell('td', content, column)).join('')}</tr>`).join('');
+            return `<table><thead>${header}</thead><tbody>${rows}</tbody></table>`;
+        }
+        case 'blockquote': return `<blockquote>${renderMarkdownHtml(block.children, sources)}</blockquote>`;
+        case 'code': return `<pre>${escapeHtml(block.text)}</pre>`;
+        case 'rule': return '<hr>';
+    }
+}).join('');
+
+// Only hex colours reach the stylesheet, so a pasted value can't break out of the CSS.
+const safeColor = (color: string): string => /^#[0-9a-f]{3,8}$/i.test(color) ? color : DEFAULT_BRANDING.primaryColor;
+
+/**
+ * Renders the grid as a standalone SVG: one rank-coloured cell per point, laid out with an
+ * equirectangular projection around the grid's centre, and the target business as a ring.
+ */
+export const renderGridSvg = (result: ScanResult, target: Business | null, size = 480): string => {
+    const { rankings } = result;
+    if (rankings.length === 0) return '';
+
+    const spec = normalizeGridSpec(result.gridSize);
+    const cellSize = size / (Math.max(spec.cols, spec.rows, 1) + 1);
+    const { toViewport } = createViewportProjection(rankings, size, size, cellSize);
+
+    const radius = cellSize * 0.42;
+    const cells = rankings.map(point => {
+        const { x, y } = toViewport(point);
+        const label = formatPointRank(point);
+        return `<circle cx="${x.toFixed(1)}" cy="${y.toFixed(1)}" r="${radius.toFixed(1)}" fill="${getPointColor(point)}"/>`
+            + `<text x="${x.toFixed(1)}" y="${y.toFixed(1)}" dominant-baseline="central" text-anchor="middle" font-size="${(radius * 0.9).toFixed(1)}" font-weight="bold" fill="#fff">${label}</text>`;
+    }).join('');
+
+    let marker = '';
+    if (target) {
+        const { x, y } = toViewport({ lat: target.latitude, lng: target.longitude });
+        marker = `<circle cx="${x.toFixed(1)}" cy="${y.toFixed(1)}" r="${(radius * 1.25).toFixed(1)}" fill="none" stroke="#111827" stroke-width="2.5"/>`;
+    }
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}" font-family="Inter, Arial, sans-serif">`
+        + `<rect width="${size}" height="${size}" fill="#f9fafb" rx="8"/>${cells}${marker}</svg>`;
+};
+
+export interface ReportInput {
+    result: ScanResult;
+    settings: ScanSettings;
+    insights: Record<InsightType, Insight>;
+    branding: ReportBranding;
+    generatedAt?: Date;
+}
+
+/** Builds a self-contained, print-ready HTML document for a client report. */
+export const buildReportHtml = ({ result, settings, insights, branding, generatedAt = new Date() }: ReportInput): string => {
+    const color = safeColor(branding.primaryColor);
+    const target = settings.location;
+    const keyword = result.keyword ?? settings.searchQuery;
+    const title = `Local Rank Report: ${target?.name ?? 'Scan'}`;
+
+    const leaderboard = sortBusinessMetrics(computeBusinessMetrics(result, target), 'visibilityShare', false).slice(0, LEADERBOARD_SIZE);
+    const leaderboardRows = leaderboard.map((m, i) => `
+        <tr${m.isTarget ? ' class="target"' : ''}>
+            <td>${i + 1}</td>
+            <td>${escapeHtml(m.business.name)}${m.isTarget ? ' <strong>(you)</strong>' : ''}</td>
+            <td>${m.visibilityShare.toFixed(1)}%</td>
+            <td>${m.top3Presence.toFixed(0)}%</td>
+            <td>${m.averageRank !== null ? m.averageRank.toFixed(1) : '&mdash;'}</td>
+        </tr>`).join('');
+
+    const insightSections = (Object.keys(INSIGHT_TITLES) as InsightType[])
+        .filter(type => insights[type].status === 'success' && insights[type].content)
+        .map(type => {
+            const { content, sources } = insights[type];
+            const citations = sources.length > 0
+                ? `<ol class="sources">${sources.map(s => `<li>${renderSourceHtml(s)}</li>`).join('')}</ol>`
+                : '';
+            return `<section class="insight"><h2>${INSIGHT_TITLES[type]}</h2><div class="insight-body">${renderMarkdownHtml(parseMarkdown(content!), sources)}</div>${citations}</section>`;
+        }).join('');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+    @page { size: A4; margin: 16mm; }
+    * { box-sizing: border-box; }
+    body { font-family: Inter, Arial, sans-serif; color: #1f2937; margin: 0; padding: 24px; font-size: 13px; line-height: 1.5; }
+    header { display: flex; align-items: center; justify-content: space-between; border-bottom: 3px solid ${color}; padding-bottom: 12px; }
+    header img { max-height: 48px; max-width: 200px; }
+    h1 { color: ${color}; font-size: 22px; margin: 16px 0 4px; }
+    h2 { color: ${color}; font-size: 16px; margin: 24px 0 8px; }
+    .meta { color: #6b7280; margin: 0; }
+    .kpis { display: flex; gap: 12px; margin-top: 16px; }
+    .kpi { flex: 1; border: 1px solid #e5e7eb; border-radius: 8px; padding: 12px; text-align: center; }
+    .kpi strong { display: block; font-size: 22px; color: ${color}; }
+    .grid { display: flex; gap: 24px; align-items: flex-start; margin-top: 8px; page-break-inside: avoid; }
+    .legend { list-style: none; padding: 0; margin: 0; }
+    .legend li { display: flex; align-items: center; gap: 6px; margin-bottom: 4px; }
+    .legend span { width: 12px; height: 12px; border-radius: 50%; display: inline-block; }
+    table { width: 100%; border-collapse: collapse; page-break-inside: avoid; }
+    th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e5e7eb; }
+    th { font-size: 11px; text-transform: uppercase; color: #6b7280; }
+    tr.target td { background: #eef2ff; }
+    .insight { page-break-inside: avoid; }
+    .insight-body h3, .insight-body h4, .insight-body h5, .insight-body h6 { font-size: 14px; margin: 12px 0 4px; }
+    .insight-body p { margin: 0 0 8px; }
+    .insight-body ul, .insight-body ol { margin: 0 0 8px; padding-left: 20px; }
+    .insight-body li p { margin: 0; }
+    .insight-body blockquote { margin: 0 0 8px; padding-left: 10px; border-left: 3px solid #e5e7eb; color: #6b7280; }
+    .insight-body pre { background: #f3f4f6; padding: 8px; white-space: pre-wrap; }
+    .insight-body sup a { text-decoration: none; }
+    .sources { font-size: 11px; color: #6b7280; }
+    .sources a { color: ${color}; word-break: break-all; }
+    footer { margin-top: 32px; font-size: 11px; color: #9ca3af; text-align: center; }
+    @media print { body { padding: 0; } }
+</style>
+</head>
+<body>
+    <header>
+        <div>${branding.agencyName ? `<strong>${escapeHtml(branding.agencyName)}</strong>` : ''}</div>
+        ${branding.logoUrl ? `<img src="${escapeHtml(branding.logoUrl)}" alt="${escapeHtml(branding.agencyName || 'Agency logo')}">` : ''}
+    </header>
+    <h1>${escapeHtml(title)}</h1>
+    ${branding.clientName ? `<p class="meta">Prepared for ${escapeHtml(branding.clientName)}</p>` : ''}
+    <p class="meta">Keyword "${escapeHtml(keyword)}" &middot; ${escapeHtml(formatGridSpec(normalizeGridSpec(result.gridSize)))} &middot; ${escapeHtml(generatedAt.toLocaleDateString())}</p>
+    ${target ? `<p class="meta">${escapeHtml(target.address)}</p>` : ''}
+
+    <div class="kpis">
+        <div class="kpi"><strong>${result.summary.averageRank.toFixed(1)}</strong>Average rank</div>
+        <div class="kpi"><strong>${result.summary.top3.toFixed(0)}%</strong>Top 3 coverage</div>
+        <div class="kpi"><strong>${result.summary.top10.toFixed(0)}%</strong>Top 10 coverage</div>
+        <div class="kpi"><strong>${result.rankings.length}</strong>Grid points</div>
+    </div>
+
+    <h2>Ranking Grid</h2>
+    <div class="grid">
+        ${renderGridSvg(result, target)}
+        <ul class="legend">
+            <li><span style="background:${getRankColor(1)}"></span>Rank 1&ndash;3</li>
+            <li><span style="background:${getRankColor(4)}"></span>Rank 4&ndash;6</li>
+            <li><span style="background:${getRankColor(7)}"></span>Rank 7&ndash;10</li>
+            <li><span style="background:${getRankColor(11)}"></span>Rank 11+</li>${result.rankings.some(p => p.error) ? `
+            <li><span style="background:${UNKNOWN_RANK_COLOR}"></span>Unknown (point failed)</li>` : ''}
+        </ul>
+    </div>
+
+    <h2>Competitor Leaderboard</h2>
+    <table>
+        <thead><tr><th>#</th><th>Business</th><th>Share of voice</th><th>Top 3</th><th>Avg rank</th></tr></thead>
+        <tbody>${leaderboardRows}</tbody>
+    </table>
+
+    ${insightSections}
+
+    <footer>Generated ${escapeHtml(generatedAt.toLocaleString())}${branding.agencyName ? ` by ${escapeHtml(branding.agencyName)}` : ''}</footer>
+</body>
+</html>`;
+};
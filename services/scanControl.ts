@@ -0,0 +1,49 @@
+export class ScanCancelledError extends Error {
+    constructor() {
+        super('The scan was cancelled.');
+        this.name = 'ScanCancelledError';
+    }
+}
+
+/** Lets the UI pause, resume and cancel a running scan. The scan checks in between grid points. */
+export interface ScanControl {
+    signal: AbortSignal; // Aborted on cancel, so in-flight requests stop too
+    isPaused: () => boolean;
+    pause: () => void;
+    resume: () => void;
+    cancel: () => void;
+    checkpoint: () => Promise<void>; // Waits while paused; throws ScanCancelledError once cancelled
+}
+
+export const createScanControl = (): ScanControl => {
+    const controller = new AbortController();
+    let paused = false;
+    let wake: (() => void) | null = null;
+    let pausedAt: Promise<void> | null = null;
+
+    const resume = () => {
+        paused = false;
+        wake?.();
+        wake = null;
+        pausedAt = null;
+    };
+
+    return {
+        signal: controller.signal,
+        isPaused: () => paused,
+        pause: () => {
+            if (paused || controller.signal.aborted) return;
+            paused = true;
+            pausedAt = new Promise(resolve => { wake = resolve; });
+        },
+        resume,
+        cancel: () => {
+            controller.abort();
+            resume(); // Wake a paused scan so it can observe the cancellation
+        },
+        checkpoint: async () => {
+            if (pausedAt) await pausedAt;
+            if (controller.signal.aborted) throw new ScanCancelledError();
+        },
+    };
+};
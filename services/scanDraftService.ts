@@ -0,0 +1,13 @@
+import { ScanDraft } from '../types';
+import { buildGrid } from './gridGeometry.ts';
+import { getScanKeywords } from './scanUtils.ts';
+
+// Completed and total grid points across every keyword of the draft.
+export const getDraftProgress = (draft: ScanDraft): { completed: number; total: number } => {
+    const { location, gridSize } = draft.settings;
+    const pointsPerKeyword = location ? buildGrid({ lat: location.latitude, lng: location.longitude }, gridSize).length : 0;
+    return {
+        completed: draft.results.length * pointsPerKeyword + (draft.partial?.rankings.length ?? 0),
+        total: getScanKeywords(draft.settings).length * pointsPerKeyword,
+    };
+};
@@ -0,0 +1,121 @@
+import { RankingPoint, FailedPoint } from '../types';
+import { GridPoint } from './gridGeometry.ts';
+import { ScanControl, ScanCancelledError } from './scanControl.ts';
+import { sleep } from './scanUtils.ts';
+
+const DEFAULT_MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+
+// Upper bounds for the user-facing settings, to keep a typo from flooding a provider.
+export const MAX_CONCURRENCY = 10;
+export const MAX_REQUESTS_PER_SECOND = 50;
+
+export interface TokenBucket {
+    take: (signal?: AbortSignal) => Promise<void>; // Resolves once a request may be made (or the signal aborts)
+}
+
+/**
+ * Rate limiter that refills `ratePerSecond` tokens a second up to `capacity`. Each request takes one
+ * token, so sustained throughput never exceeds the rate while short bursts of `capacity` are allowed.
+ */
+export const createTokenBucket = (ratePerSecond: number, capacity: number = 1): TokenBucket => {
+    let tokens = capacity;
+    let refilledAt = Date.now();
+
+    const refill = () => {
+        const now = Date.now();
+        tokens = Math.min(capacity, tokens + (now - refilledAt) / 1000 * ratePerSecond);
+        refilledAt = now;
+    };
+
+    return {
+        take: async (signal) => {
+            refill();
+            while (tokens < 1) {
+                if (signal?.aborted) return;
+                await sleep(((1 - tokens) / ratePerSecond) * 1000, signal);
+                refill();
+            }
+            tokens -= 1;
+        },
+    };
+};
+
+export interface GridScanOptions {
+    control?: ScanControl;
+    completedRankings?: RankingPoint[]; // Points an interrupted run already scanned; they're kept, not rescanned
+    onRankings?: (rankings: RankingPoint[], total: number) => void; // After each point, with every point so far
+    concurrency?: number; // Points ranked in parallel
+    requestsPerSecond?: number; // Shared by every attempt, retries included
+    maxRetries?: number; // Per point, before it's recorded as failed
+}
+
+// A point that couldn't be ranked. It has no rank, so it's left out of every average.
+export const createFailedPoint = (gridPoint: GridPoint, error: unknown): FailedPoint => ({
+    id: gridPoint.id,
+    rank: null,
+    lat: gridPoint.lat,
+    lng: gridPoint.lng,
+    competitorRanks: [],
+    error: error instanceof Error ? error.message : 'The point could not be ranked.',
+});
+
+/**
+ * The per-point executor shared by every rank provider. Up to `concurrency` points are ranked at once,
+ * every request waits for the rate limiter, and a point that keeps failing after `maxRetries` retries
+ * is recorded as failed (rank unknown) instead of failing the whole scan. Points found in
+ * `completedRankings` are reused, so a resumed scan continues where it stopped; points that failed
+ * last time are tried again. Each point is streamed through `onProgress` as soon as it's done, and
+ * the result is returned in grid order.
+ */
+export const scanGridPoints = async (
+    gridPoints: GridPoint[],
+    rankPoint: (gridPoint: GridPoint) => Promise<RankingPoint>,
+    onProgress: (progress: { current: number; total: number; point: RankingPoint }) => void,
+    { control, completedRankings = [], onRankings, concurrency = 1, requestsPerSecond = 5, maxRetries = DEFAULT_MAX_RETRIES }: GridScanOptions = {}
+): Promise<RankingPoint[]> => {
+    const total = gridPoints.length;
+    const completed = new Map(completedRankings.filter(point => !point.error).map(point => [point.id, point]));
+    const rankings: RankingPoint[] = [];
+    const bucket = createTokenBucket(requestsPerSecond);
+
+    const record = (point: RankingPoint, isNew: boolean) => {
+        rankings.push(point);
+        onProgress({ current: rankings.length, total, point });
+        if (isNew) onRankings?.(rankings, total);
+    };
+
+    gridPoints.forEach(gridPoint => {
+        const previous = completed.get(gridPoint.id);
+        if (previous) record(previous, false);
+    });
+    const queue = gridPoints.filter(gridPoint => !completed.has(gridPoint.id));
+
+    const rankWithRetries = async (gridPoint: GridPoint): Promise<RankingPoint> => {
+        for (let attempt = 0; ; attempt++) {
+            await bucket.take(control?.signal);
+            await control?.checkpoint();
+            try {
+                return await rankPoint(gridPoint);
+            } catch (error) {
+                // A request aborted by cancel surfaces as the provider's own error; report it as a cancellation.
+                if (control?.signal.aborted) throw new ScanCancelledError();
+                if (attempt >= maxRetries) {
+                    console.warn(`Grid point ${gridPoint.id} failed after ${attempt + 1} attempts:`, error);
+                    return createFailedPoint(gridPoint, error);
+                }
+                await sleep(RETRY_BASE_DELAY_MS * 2 ** attempt, control?.signal);
+            }
+        }
+    };
+
+    const worker = async () => {
+        for (let gridPoint = queue.shift(); gridPoint; gridPoint = queue.shift()) {
+            record(await rankWithRetries(gridPoint), true);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, queue.length)) }, worker));
+
+    const order = new Map(gridPoints.map((gridPoint, index) => [gridPoint.id, index]));
+    return rankings.sort((a, b) => order.get(a.id)! - order.get(b.id)!);
+};
@@ -0,0 +1,115 @@
+import { ScanSettings, ScanResult, Business, GroundingSource, PartialKeywordScan, ScanDraft, RankingPoint } from '../types';
+import { resolveCompetitors } from './competitorSetService.ts';
+import { getRankProvider, ScanProgressCallback } from './rankProviders.ts';
+import { getRankedPoints, getScanKeywords } from './scanUtils.ts';
+import { MAX_COMPETITOR_DISTANCE_KM } from './competitorValidation.ts';
+import { ScanControl } from './scanControl.ts';
+import { generateSeed } from './random.ts';
+
+export interface ScanReplay {
+    competitors: Business[];
+    sources: GroundingSource[];
+}
+
+export interface ScanPipelineOptions {
+    control?: ScanControl;
+    resume?: PartialKeywordScan; // Continue this interrupted scan instead of starting over
+    onCheckpoint?: (partial: PartialKeywordScan) => void; // After each completed grid point
+}
+
+/**
+ * Runs a complete scan: resolves the business's competitor set (unless replaying a recorded one or
+ * resuming) and hands the grid to the configured rank provider. Shared by manual and scheduled scans.
+ * Fails when no grid point could be ranked, so a broken provider never produces a result to save.
+ */
+export const runScanPipeline = async (
+    settings: ScanSettings,
+    onProgress: ScanProgressCallback,
+    replay?: ScanReplay,
+    { control, resume, onCheckpoint }: ScanPipelineOptions = {}
+): Promise<ScanResult> => {
+    if (!settings.location) {
+        throw new Error("Location is not set for scan.");
+    }
+    // Replays and resumed scans reuse their competitors so the seeded simulation stays consistent.
+    // Large grids reach further out, so competitors may plausibly be further from the target.
+    const { businesses: competitors, sources: competitorSources, rejected } = resume
+        ? { businesses: resume.competitors, sources: resume.sources, rejected: resume.rejectedCompetitors ?? [] }
+        : replay
+        ? { businesses: replay.competitors, sources: replay.sources, rejected: [] }
+        : await resolveCompetitors(settings.location, settings.searchQuery, Math.max(MAX_COMPETITOR_DISTANCE_KM, settings.gridSize.distanceKm * 2), control?.signal);
+
+    const provider = getRankProvider(settings.provider);
+    const result = await provider.scan(settings, competitors, onProgress, competitorSources, {
+        control,
+        concurrency: settings.concurrency ?? provider.defaultConcurrency,
+        requestsPerSecond: settings.requestsPerSecond ?? provider.defaultRequestsPerSecond,
+        completedRankings: resume?.rankings,
+        onRankings: (rankings, totalPoints) => onCheckpoint?.({
+            keyword: settings.searchQuery,
+            seed: settings.seed,
+            competitors,
+            sources: competitorSources,
+            rejectedCompetitors: rejected.length > 0 ? rejected : undefined,
+            rankings: [...rankings],
+            totalPoints,
+        }),
+    });
+    if (getRankedPoints(result.rankings).length === 0) {
+        const reason = result.rankings.find(point => point.error)?.error;
+        throw new Error(`No grid point could be ranked for "${settings.searchQuery}".${reason ? ` ${reason}` : ''}`);
+    }
+    return rejected.length > 0 ? { ...result, rejectedCompetitors: rejected } : result;
+};
+
+export interface KeywordScanProgress {
+    current: number;
+    total: number;
+    keyword: string;
+    keywordIndex: number; // 0-based
+    keywordCount: number;
+    point: RankingPoint; // The point just ranked, for progressive rendering
+}
+
+export type ScanCheckpoint = Pick<ScanDraft, 'results' | 'partial'>;
+
+export interface KeywordScanOptions {
+    control?: ScanControl;
+    draft?: ScanCheckpoint; // Resume from here: finished keywords are kept and the partial one continues
+    onCheckpoint?: (checkpoint: ScanCheckpoint) => void; // After each completed grid point
+}
+
+/**
+ * Runs the grid once per keyword in the settings and returns one result per keyword, in order.
+ * When `recorded` results are given (a replay), each keyword reuses its recorded competitors and seed.
+ */
+export const runKeywordScans = async (
+    settings: ScanSettings,
+    onProgress: (progress: KeywordScanProgress) => void,
+    recorded?: ScanResult[],
+    { control, draft, onCheckpoint }: KeywordScanOptions = {}
+): Promise<ScanResult[]> => {
+    const keywords = getScanKeywords(settings);
+    const results: ScanResult[] = [...(draft?.results ?? [])];
+
+    for (const [keywordIndex, keyword] of keywords.entries()) {
+        if (keywordIndex < results.length) continue; // Finished before the scan was interrupted
+        const previous = recorded?.find(r => (r.keyword ?? settings.searchQuery) === keyword);
+        const resume = draft?.partial?.keyword === keyword ? draft.partial : undefined;
+        // The seed is fixed up front so an interrupted simulated scan can resume with the same ranks.
+        const seed = resume?.seed ?? previous?.seed ?? settings.seed ?? generateSeed();
+        const keywordSettings: ScanSettings = { ...settings, searchQuery: keyword, seed };
+        const replay = previous ? { competitors: previous.competitors, sources: previous.sources } : undefined;
+
+        const result = await runScanPipeline(keywordSettings, ({ current, total, point }) => {
+            onProgress({ current, total, keyword, keywordIndex, keywordCount: keywords.length, point });
+        }, replay, {
+            control,
+            resume,
+            onCheckpoint: partial => onCheckpoint?.({ results: [...results], partial }),
+        });
+        results.push(result);
+        onCheckpoint?.({ results: [...results], partial: null });
+    }
+    return results;
+};
@@ -0,0 +1,117 @@
+import { ScanSettings, ScanResult, Business, RankingPoint, RankedPoint, GroundingSource, ScanHistoryItem, Insight, InsightType, SavedInsight, ChatMessage } from '../types';
+
+// Waits `ms`, or less if `signal` aborts first. Callers check the signal afterwards.
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+    if (signal?.aborted) {
+        resolve();
+        return;
+    }
+    const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Points that were actually ranked. Failed points have no rank and are left out of every average.
+export const getRankedPoints = (rankings: RankingPoint[]): RankedPoint[] =>
+    rankings.filter((p): p is RankedPoint => !p.error);
+
+// Builds the summary and competitor averages shared by every rank provider.
+export const buildScanResult = (
+    settings: ScanSettings,
+    allRankings: RankingPoint[],
+    competitors: Business[],
+    competitorSources: GroundingSource[]
+): ScanResult => {
+    const rankings = getRankedPoints(allRankings);
+    const totalRank = rankings.reduce((sum, p) => sum + (p.rank > 20 ? 21 : p.rank), 0);
+    const top3Count = rankings.filter(p => p.rank <= 3).length;
+    const top10Count = rankings.filter(p => p.rank <= 10).length;
+
+    const summary = {
+        averageRank: rankings.length > 0 ? totalRank / rankings.length : 0,
+        top3: rankings.length > 0 ? (top3Count / rankings.length) * 100 : 0,
+        top10: rankings.length > 0 ? (top10Count / rankings.length) * 100 : 0,
+    };
+
+    // For the sidebar list, let's calculate average rank for each competitor.
+    const competitorsWithAvgRank = competitors.map(comp => {
+        const totalCompRank = rankings.reduce((sum, p) => {
+            const compRank = p.competitorRanks.find(cr => cr.business.id === comp.id)?.rank ?? 21;
+            return sum + compRank;
+        }, 0);
+        return {
+            ...comp,
+            averageRank: rankings.length > 0 ? totalCompRank / rankings.length : 21,
+        };
+    });
+    competitorsWithAvgRank.sort((a, b) => a.averageRank - b.averageRank);
+
+    return {
+        summary,
+        rankings: allRankings,
+        gridSize: settings.gridSize,
+        competitors: competitorsWithAvgRank,
+        sources: competitorSources,
+        keyword: settings.searchQuery,
+    };
+};
+
+// The keywords a scan covers. Settings saved before multi-keyword scans only have searchQuery.
+export const getScanKeywords = (settings: ScanSettings): string[] => {
+    const keywords = (settings.keywords ?? []).map(k => k.trim()).filter(Boolean);
+    const unique = keywords.filter((k, i) => keywords.findIndex(other => other.toLowerCase() === k.toLowerCase()) === i);
+    return unique.length > 0 ? unique : [settings.searchQuery.trim()];
+};
+
+// Every per-keyword result of a history item, primary keyword first.
+export const getHistoryResults = (item: ScanHistoryItem): ScanResult[] =>
+    item.keywordResults && item.keywordResults.length > 0 ? item.keywordResults : [{ ...item.result, keyword: item.result.keyword ?? item.settings.searchQuery }];
+
+export const getHistoryResultForKeyword = (item: ScanHistoryItem, keyword: string): ScanResult | undefined =>
+    getHistoryResults(item).find(r => r.keyword?.trim().toLowerCase() === keyword.trim().toLowerCase());
+
+const insightKey = (keyword: string) => keyword.trim().toLowerCase();
+
+// The insights saved with a scan for one keyword; types that were never generated are idle.
+export const getSavedInsights = (item: ScanHistoryItem | null | undefined, keyword: string): Record<InsightType, Insight> => {
+    const saved = item?.insights?.[insightKey(keyword)] ?? {};
+    const toInsight = (insight?: SavedInsight): Insight =>
+        insight ? { status: 'success', content: insight.content, sources: insight.sources } : { status: 'idle', content: null, sources: [] };
+    return { ranking: toInsight(saved.ranking), competitor: toInsight(saved.competitor), review: toInsight(saved.review) };
+};
+
+export const withSavedInsight = (item: ScanHistoryItem, keyword: string, type: InsightType, insight: SavedInsight): ScanHistoryItem => ({
+    ...item,
+    insights: { ...item.insights, [insightKey(keyword)]: { ...item.insights?.[insightKey(keyword)], [type]: insight } },
+});
+
+// The assistant conversation saved with a scan for one keyword.
+export const getSavedChat = (item: ScanHistoryItem | null | undefined, keyword: string): ChatMessage[] =>
+    item?.chats?.[insightKey(keyword)] ?? [];
+
+export const withSavedChat = (item: ScanHistoryItem, keyword: string, messages: ChatMessage[]): ScanHistoryItem => ({
+    ...item,
+    chats: { ...item.chats, [insightKey(keyword)]: messages },
+});
+
+// Label for a point's rank; failed points are unknown.
+export const formatPointRank = (point: RankingPoint): string =>
+    point.error ? '?' : point.rank > 20 ? '20+' : String(point.rank);
+
+export const UNKNOWN_RANK_COLOR = '#9ca3af';
+
+export const getPointColor = (point: RankingPoint): string => point.error ? UNKNOWN_RANK_COLOR : getRankColor(point.rank);
+
+// Marker colour bands shared by the map and the printable report.
+export const getRankColor = (rank: number): string => {
+    if (rank <= 3) return '#22c55e';
+    if (rank <= 6) return '#facc15';
+    if (rank <= 10) return '#f97316';
+    return '#ef4444';
+};
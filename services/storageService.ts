@@ -0,0 +1,191 @@
+import { ScanDraft, ScanHistoryItem } from '../types';
+import { normalizeGridSpec } from './gridGeometry.ts';
+
+const DB_NAME = 'gmbRankTracker';
+const HISTORY_STORE = 'scanHistory';
+const DRAFT_STORE = 'scanDraft';
+const DRAFT_KEY = 'current'; // Only one draft is kept: starting a new scan replaces it
+const LEGACY_HISTORY_KEY = 'gmbScanHistory';
+const LEGACY_DRAFT_KEY = 'gmbScanDraft';
+
+type Migration = (db: IDBDatabase, transaction: IDBTransaction) => void;
+
+/**
+ * Schema migrations, applied in order. Entry `i` upgrades the database from version `i` to `i + 1`,
+ * so the database version is always `MIGRATIONS.length`. Append new migrations; never edit old ones.
+ */
+const MIGRATIONS: Migration[] = [
+    // v1: scan history keyed by id. Ids are ISO timestamps, so key order is scan order.
+    (db) => {
+        db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+    },
+    // v2: move the history that used to live in localStorage (capped at 10 scans) into IndexedDB.
+    (_db, transaction) => {
+        const saved = localStorage.getItem(LEGACY_HISTORY_KEY);
+        if (!saved) return;
+        const store = transaction.objectStore(HISTORY_STORE);
+        try {
+            const items: ScanHistoryItem[] = JSON.parse(saved);
+            items.forEach(item => store.put(item));
+        } catch (error) {
+            // A corrupt legacy entry must not block the upgrade; it's left in localStorage untouched.
+            console.error("Failed to migrate scan history from localStorage:", error);
+            return;
+        }
+        transaction.addEventListener('complete', () => localStorage.removeItem(LEGACY_HISTORY_KEY));
+    },
+    // v3: the interrupted-scan draft, which can hold a whole grid's results, moves out of localStorage too.
+    (db, transaction) => {
+        db.createObjectStore(DRAFT_STORE);
+        const saved = localStorage.getItem(LEGACY_DRAFT_KEY);
+        if (!saved) return;
+        try {
+            transaction.objectStore(DRAFT_STORE).put(JSON.parse(saved), DRAFT_KEY);
+        } catch (error) {
+            console.error("Failed to migrate the scan draft from localStorage:", error);
+            return;
+        }
+        transaction.addEventListener('complete', () => localStorage.removeItem(LEGACY_DRAFT_KEY));
+    },
+];
+
+export class StorageError extends Error {
+    constructor(message: string, public readonly cause?: unknown) {
+        super(message);
+        this.name = 'StorageError';
+    }
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new StorageError('IndexedDB is not available in this browser.'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, MIGRATIONS.length);
+            request.onupgradeneeded = (event) => {
+                const transaction = request.transaction!;
+                for (let version = event.oldVersion; version < MIGRATIONS.length; version++) {
+                    MIGRATIONS[version](request.result, transaction);
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(new StorageError('Failed to open the scan database.', request.error));
+            request.onblocked = () => reject(new StorageError('The scan database is open in another tab with an older version. Close other tabs and reload.'));
+        });
+        // Let the next call retry instead of caching a failure.
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+const withStore = async <T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, mode);
+    const result = requestToPromise(action(transaction.objectStore(storeName)));
+    const done = new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted.'));
+    });
+    // A failed request also fails its transaction; awaiting both together handles both rejections.
+    const [value] = await Promise.all([result, done]);
+    return value;
+};
+
+// Older entries stored the grid as a display string like "15 x 11 (4 km)".
+const normalizeHistoryItem = (item: ScanHistoryItem): ScanHistoryItem => ({
+    ...item,
+    settings: { ...item.settings, gridSize: normalizeGridSpec(item.settings.gridSize) },
+    result: { ...item.result, gridSize: normalizeGridSpec(item.result.gridSize) },
+});
+
+// Returns every saved scan, newest first. The whole history is held in memory, since trends,
+// comparisons and exports work across all of it; the history panel's pages only limit rendering.
+export const loadScanHistory = async (): Promise<ScanHistoryItem[]> => {
+    try {
+        const items = await withStore(HISTORY_STORE, 'readonly', store => store.getAll() as IDBRequest<ScanHistoryItem[]>);
+        return items.reverse().map(normalizeHistoryItem);
+    } catch (error) {
+        throw error instanceof StorageError ? error : new StorageError('Failed to load scan history.', error);
+    }
+};
+
+export const saveScanHistoryItem = async (item: ScanHistoryItem): Promise<void> => {
+    try {
+        await withStore(HISTORY_STORE, 'readwrite', store => store.put(item));
+    } catch (error) {
+        const isQuota = error instanceof DOMException && error.name === 'QuotaExceededError';
+        throw new StorageError(isQuota ? 'Storage is full. Delete old scans to save new ones.' : 'Failed to save scan to history.', error);
+    }
+};
+
+export const deleteScanHistoryItem = async (id: string): Promise<void> => {
+    try {
+        await withStore(HISTORY_STORE, 'readwrite', store => store.delete(id));
+    } catch (error) {
+        throw new StorageError('Failed to delete scan from history.', error);
+    }
+};
+
+export const loadScanDraft = async (): Promise<ScanDraft | null> => {
+    try {
+        const draft = await withStore(DRAFT_STORE, 'readonly', store => store.get(DRAFT_KEY) as IDBRequest<ScanDraft | undefined>);
+        return draft ?? null;
+    } catch (error) {
+        throw error instanceof StorageError ? error : new StorageError('Failed to load the interrupted scan.', error);
+    }
+};
+
+// Saving null removes the draft.
+export const saveScanDraft = async (draft: ScanDraft | null): Promise<void> => {
+    try {
+        await withStore(DRAFT_STORE, 'readwrite', store => (draft ? store.put(draft, DRAFT_KEY) : store.delete(DRAFT_KEY)));
+    } catch (error) {
+        const isQuota = error instanceof DOMException && error.name === 'QuotaExceededError';
+        throw new StorageError(isQuota ? 'Storage is full. Delete old scans to keep interrupted scans.' : 'Failed to save the interrupted scan.', error);
+    }
+};
+
+// Removes the draft only if it belongs to run `id`; a draft from a different scan is kept.
+export const deleteScanDraft = async (id: string): Promise<void> => {
+    const draft = await loadScanDraft();
+    if (draft?.id === id) await saveScanDraft(null);
+};
+
+export interface StorageUsage {
+    usage: number; // Bytes used by this origin
+    quota: number; // Bytes the browser will allow this origin
+}
+
+// Not every browser exposes an estimate; callers should hide the indicator when this is null.
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+    if (!navigator.storage?.estimate) return null;
+    try {
+        const { usage, quota } = await navigator.storage.estimate();
+        return usage !== undefined && quota ? { usage, quota } : null;
+    } catch (error) {
+        console.error("Failed to estimate storage usage:", error);
+        return null;
+    }
+};
+
+export const formatBytes = (bytes: number): string => {
+    const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+};
@@ -0,0 +1,93 @@
+import { Business, GridSpec, ScanHistoryItem, ScanResult, ScanSettings } from '../types';
+import { getGridKey, normalizeGridSpec } from './gridGeometry.ts';
+import { getHistoryResults, getRankedPoints } from './scanUtils.ts';
+
+export interface TrendPoint {
+    date: Date;
+    historyItemId: string;
+    averageRank: number;
+    top3: number;
+    top10: number;
+}
+
+export interface CompetitorTrend {
+    business: Business;
+    points: { date: Date; historyItemId: string; averageRank: number }[];
+}
+
+export interface TrendGroup {
+    key: string;
+    location: Business;
+    searchQuery: string;
+    gridSize: GridSpec;
+    points: TrendPoint[]; // Oldest first
+    competitors: CompetitorTrend[];
+}
+
+// History ids are ISO timestamps; the display timestamp is locale-formatted and only a fallback.
+export const getScanDate = (item: ScanHistoryItem): Date => {
+    const fromId = new Date(item.id);
+    return isNaN(fromId.getTime()) ? new Date(item.timestamp) : fromId;
+};
+
+// Scans are comparable when they share a business, keyword and grid layout (including its service area).
+export const getTrendKey = (settings: Pick<ScanSettings, 'location' | 'searchQuery' | 'gridSize'>): string =>
+    [settings.location?.id ?? '', settings.searchQuery.trim().toLowerCase(), getGridKey(settings.gridSize)].join('|');
+
+// Average rank across the grid, counting points where the business doesn't appear as 21.
+const competitorAverageRank = (result: ScanResult, businessId: string): number => {
+    const rankings = getRankedPoints(result.rankings);
+    if (rankings.length === 0) return 21;
+    const total = rankings.reduce((sum, p) => sum + (p.competitorRanks.find(cr => cr.business.id === businessId)?.rank ?? 21), 0);
+    return total / rankings.length;
+};
+
+export const buildTrendGroups = (history: ScanHistoryItem[]): TrendGroup[] => {
+    const groups = new Map<string, TrendGroup>();
+    const competitorMaps = new Map<string, Map<string, CompetitorTrend>>();
+
+    const sorted = [...history]
+        .filter(item => item.settings.location)
+        .sort((a, b) => getScanDate(a).getTime() - getScanDate(b).getTime());
+
+    // Multi-keyword scans contribute one point to each of their keywords' groups.
+    for (const item of sorted) {
+        const date = getScanDate(item);
+        for (const result of getHistoryResults(item)) {
+            const searchQuery = result.keyword ?? item.settings.searchQuery;
+            const key = getTrendKey({ ...item.settings, searchQuery });
+            let group = groups.get(key);
+            if (!group) {
+                group = {
+                    key,
+                    location: item.settings.location!,
+                    searchQuery,
+                    gridSize: normalizeGridSpec(item.settings.gridSize),
+                    points: [],
+                    competitors: [],
+                };
+                groups.set(key, group);
+                competitorMaps.set(key, new Map());
+            }
+
+            const { summary } = result;
+            group.points.push({ date, historyItemId: item.id, averageRank: summary.averageRank, top3: summary.top3, top10: summary.top10 });
+
+            const competitors = competitorMaps.get(key)!;
+            for (const competitor of result.competitors) {
+                let trend = competitors.get(competitor.id);
+                if (!trend) {
+                    trend = { business: competitor, points: [] };
+                    competitors.set(competitor.id, trend);
+                    group.competitors.push(trend);
+                }
+                trend.points.push({ date, historyItemId: item.id, averageRank: competitorAverageRank(result, competitor.id) });
+            }
+        }
+    }
+
+    // Most recently scanned groups first.
+    return [...groups.values()].sort((a, b) =>
+        b.points[b.points.length - 1].date.getTime() - a.points[a.points.length - 1].date.getTime()
+    );
+};
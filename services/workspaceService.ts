@@ -0,0 +1,96 @@
+import { Business, Project, SavedBusiness, ScanHistoryItem, ScanSettings, Workspace } from '../types';
+import { getScanKeywords } from './scanUtils.ts';
+
+const STORAGE_KEY = 'gmbWorkspace';
+
+const EMPTY_WORKSPACE: Workspace = { projects: [], activeProjectId: null };
+
+export const loadWorkspace = (): Workspace => {
+    try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        return saved ? { ...EMPTY_WORKSPACE, ...JSON.parse(saved) } : EMPTY_WORKSPACE;
+    } catch (error) {
+        console.error("Failed to load workspace:", error);
+        return EMPTY_WORKSPACE;
+    }
+};
+
+export const saveWorkspace = (workspace: Workspace) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(workspace));
+    } catch (error) {
+        console.error("Failed to save workspace:", error);
+    }
+};
+
+// New projects start with the keywords and grid currently in the settings sidebar.
+export const createProject = (name: string, settings: ScanSettings, now: Date = new Date()): Project => ({
+    id: `project-${now.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: name.trim(),
+    createdAt: now.toISOString(),
+    defaultKeywords: getScanKeywords(settings).filter(Boolean),
+    defaultGridSize: settings.gridSize,
+    businesses: [],
+});
+
+export const getActiveProject = (workspace: Workspace): Project | null =>
+    workspace.projects.find(p => p.id === workspace.activeProjectId) ?? null;
+
+const updateProject = (workspace: Workspace, projectId: string, update: (project: Project) => Project): Workspace => ({
+    ...workspace,
+    projects: workspace.projects.map(p => p.id === projectId ? update(p) : p),
+});
+
+/**
+ * Saves the business from the current settings into a project. The keywords and grid are stored
+ * on the business only where they differ from the project's defaults. Saving again replaces it.
+ */
+export const saveBusinessToProject = (workspace: Workspace, projectId: string, settings: ScanSettings): Workspace => {
+    const business = settings.location;
+    if (!business) return workspace;
+    return updateProject(workspace, projectId, project => {
+        const keywords = getScanKeywords(settings).filter(Boolean);
+        const sameKeywords = keywords.join('\n') === project.defaultKeywords.join('\n');
+        const sameGrid = JSON.stringify(settings.gridSize) === JSON.stringify(project.defaultGridSize);
+        const saved: SavedBusiness = {
+            business,
+            keywords: sameKeywords ? undefined : keywords,
+            gridSize: sameGrid ? undefined : settings.gridSize,
+        };
+        return { ...project, businesses: [...project.businesses.filter(b => b.business.id !== business.id), saved] };
+    });
+};
+
+export const removeBusinessFromProject = (workspace: Workspace, projectId: string, businessId: string): Workspace =>
+    updateProject(workspace, projectId, project => ({ ...project, businesses: project.businesses.filter(b => b.business.id !== businessId) }));
+
+export const setProjectDefaults = (workspace: Workspace, projectId: string, settings: ScanSettings): Workspace =>
+    updateProject(workspace, projectId, project => ({
+        ...project,
+        defaultKeywords: getScanKeywords(settings).filter(Boolean),
+        defaultGridSize: settings.gridSize,
+    }));
+
+export const deleteProject = (workspace: Workspace, projectId: string): Workspace => ({
+    projects: workspace.projects.filter(p => p.id !== projectId),
+    activeProjectId: workspace.activeProjectId === projectId ? null : workspace.activeProjectId,
+});
+
+// The scan settings for a saved business: its own overrides first, then the project's defaults.
+export const getSavedBusinessSettings = (project: Project, saved: SavedBusiness, base: ScanSettings): ScanSettings => {
+    const keywords = saved.keywords ?? project.defaultKeywords;
+    return {
+        ...base,
+        location: saved.business,
+        keywords,
+        searchQuery: keywords[0] ?? base.searchQuery,
+        gridSize: saved.gridSize ?? project.defaultGridSize,
+        seed: undefined,
+    };
+};
+
+export const isBusinessSaved = (project: Project | null, business: Business | null): boolean =>
+    !!project && !!business && project.businesses.some(b => b.business.id === business.id);
+
+export const filterHistoryByProject = (history: ScanHistoryItem[], projectId: string | null): ScanHistoryItem[] =>
+    projectId ? history.filter(item => item.projectId === projectId) : history;
@@ -13,10 +13,33 @@ export interface PlaceAutocompleteResult {
     address: string;
 }
 
+export type RankProviderId = 'mock' | 'http';
+
+export type GridShape = 'square' | 'circle' | 'hexagon' | 'polygon';
+
+// GeoJSON geometry (positions are [lng, lat]) describing a service-area business's coverage.
+export type ServiceArea =
+  | { type: 'Polygon'; coordinates: number[][][] }
+  | { type: 'MultiPolygon'; coordinates: number[][][][] };
+
+export interface GridSpec {
+  shape: GridShape;
+  cols: number;
+  rows: number;
+  distanceKm: number; // Full width/height of the grid; circle and hexagon use half of it as radius
+  serviceArea?: ServiceArea; // Required when shape is 'polygon'
+}
+
 export interface ScanSettings {
   location: Business | null;
-  searchQuery: string;
-  gridSize: string;
+  searchQuery: string; // The keyword being scanned or viewed; the first of `keywords` for multi-keyword scans
+  keywords?: string[]; // Every keyword to scan in one run
+  gridSize: GridSpec;
+  provider: RankProviderId;
+  serpEndpoint?: string; // Only used by the 'http' provider
+  seed?: number; // Pins the mock provider's PRNG; a random seed is used when unset
+  concurrency?: number; // Grid points ranked in parallel; the provider's default when unset
+  requestsPerSecond?: number; // Rate limit for rank requests; the provider's default when unset
 }
 
 export interface CompetitorRank {
@@ -24,19 +47,45 @@ export interface CompetitorRank {
   business: Business;
 }
 
-export interface RankingPoint {
+interface GridPointResult {
   id: number;
-  rank: number; // Rank of the target business
   lat: number;
   lng: number;
   competitorRanks: CompetitorRank[]; // Full ranking list for this point
 }
 
+export interface RankedPoint extends GridPointResult {
+  rank: number; // Rank of the target business
+  error?: undefined;
+}
+
+// A point that couldn't be ranked: its rank is unknown, so it has none.
+export interface FailedPoint extends GridPointResult {
+  rank: null;
+  error: string;
+}
+
+export type RankingPoint = RankedPoint | FailedPoint;
+
 export interface GroundingSource {
     uri: string;
     title: string;
 }
 
+// A competitor returned by discovery that failed validation, with a user-facing reason.
+export interface RejectedCompetitor {
+  name: string;
+  reason: string;
+}
+
+// Public Google Business Profile facts, used to compare the target with the competitors that outrank it.
+export interface BusinessProfile {
+  rating?: number; // Average star rating, 1-5
+  reviewCount?: number;
+  categories?: string[];
+  source: 'places' | 'grounding'; // Places details, or Gemini with Google Maps grounding
+}
+
 export interface ScanResult {
   summary: {
     averageRank: number;
@@ -44,9 +93,12 @@ export interface ScanResult {
     top10: number;
   };
   rankings: RankingPoint[];
-  gridSize: string;
+  gridSize: GridSpec;
   competitors: Business[];
   sources: GroundingSource[]; // API COMPLIANCE FIX
+  seed?: number; // PRNG seed used by simulated scans, for replay
+  keyword?: string; // The search query this result was scanned for
+  rejectedCompetitors?: RejectedCompetitor[]; // Competitors dropped by validation during discovery
 }
 
 export type InsightType = 'ranking' | 'competitor' | 'review';
@@ -57,9 +109,106 @@ export interface Insight {
     sources: GroundingSource[];
 }
 
+export interface SavedInsight {
+    content: string;
+    sources: GroundingSource[];
+    generatedAt: string; // ISO timestamp
+}
+
+// One turn of the "ask about this scan" assistant conversation.
+export interface ChatMessage {
+    role: 'user' | 'model';
+    content: string; // Markdown for model answers
+    sources: GroundingSource[]; // Grounding sources of a model answer; empty for questions
+    createdAt: string; // ISO timestamp
+}
+
 export interface ScanHistoryItem {
   id: string;
   timestamp: string;
   settings: ScanSettings;
-  result: ScanResult;
+  result: ScanResult; // Result for the first keyword
+  keywordResults?: ScanResult[]; // One result per keyword, in the order they were scanned
+  monitorJobId?: string; // Set when the scan was run by a monitored job
+  projectId?: string; // Workspace project the scan was run under
+  insights?: Record<string, Partial<Record<InsightType, SavedInsight>>>; // Generated insights per lower-cased keyword
+  chats?: Record<string, ChatMessage[]>; // Assistant conversation per lower-cased keyword
+}
+
+// A keyword scan stopped part-way through, with enough state to continue from the next grid point.
+export interface PartialKeywordScan {
+  keyword: string;
+  seed?: number; // Keeps the simulated ranks of the remaining points consistent with the completed ones
+  competitors: Business[];
+  sources: GroundingSource[];
+  rejectedCompetitors?: RejectedCompetitor[];
+  rankings: RankingPoint[]; // Completed points
+  totalPoints: number;
+}
+
+// A cancelled, failed or interrupted scan that can be resumed.
+export interface ScanDraft {
+  id: string; // ISO timestamp of the original run; kept when the draft is resumed
+  settings: ScanSettings;
+  projectId?: string;
+  results: ScanResult[]; // Keywords that finished, in scan order
+  partial: PartialKeywordScan | null; // The keyword that was in progress
+  recorded?: ScanResult[]; // For a replay, the replayed scan's results (without rankings), so resuming keeps its competitors and seeds
+  updatedAt: string; // ISO timestamp
+}
+
+export type MonitorCadence = 'daily' | 'weekly' | 'monthly';
+
+export interface MonitorRun {
+  runAt: string; // ISO timestamp
+  status: 'success' | 'error';
+  historyItemId?: string; // The ScanHistoryItem produced by a successful run
+  averageRank?: number;
+  error?: string;
+}
+
+export interface MonitoredJob {
+  id: string;
+  settings: ScanSettings;
+  cadence: MonitorCadence;
+  status: 'active' | 'paused';
+  createdAt: string;
+  nextRunAt: string; // ISO timestamp
+  runs: MonitorRun[];
+  projectId?: string; // Scans run by this job are filed under this project
+}
+
+export interface SavedBusiness {
+  business: Business;
+  keywords?: string[]; // Overrides the project's default keywords
+  gridSize?: GridSpec; // Overrides the project's default grid
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: string;
+  defaultKeywords: string[];
+  defaultGridSize: GridSpec;
+  businesses: SavedBusiness[];
+}
+
+export interface Workspace {
+  projects: Project[];
+  activeProjectId: string | null; // Null shows every scan, across projects
+}
+
+export interface DiscoveredCompetitors {
+  businesses: Business[];
+  sources: GroundingSource[];
+  discoveredAt: string; // ISO timestamp
+}
+
+// Per-business control over which competitors a scan ranks against.
+export interface CompetitorSet {
+  pinned: Business[]; // Always included, ahead of discovered competitors
+  excluded: Business[]; // Never included, even if discovery returns them
+  discoverCount: number;
+  discovered: Record<string, DiscoveredCompetitors>; // Saved discovery per lower-cased keyword, reused on rescans
+  rediscoverRequestedAt?: string; // ISO timestamp; cached discoveries older than this are ignored
 }